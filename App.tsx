@@ -3,76 +3,211 @@ import Sidebar from './components/Sidebar';
 import NoteList from './components/NoteList';
 import Editor from './components/Editor';
 import { Auth } from './components/Auth';
+import SearchDialog from './components/SearchDialog';
+import CommandPalette from './components/CommandPalette';
+import NotFound from './components/NotFound';
 import { supabase } from './src/lib/supabase';
 import { Session } from '@supabase/supabase-js';
-import { EditorSettings, Note } from './types';
+import { EditorSettings, Note, NodeRecord } from './types';
+import { toNote } from './services/nodeRepository';
+import { useNodeRepository } from './services/repositoryContext';
+import { claimReplica, startSync, syncNow } from './services/syncService';
+import { hasMigratedImages, markImagesMigrated, migrateInlineImages } from './services/imageStorage';
+import { DEFAULT_AI_BASE_URL } from './services/aiProvider';
+import { useCommands } from './services/commandRegistry';
+import { navigate, parseHash, useRoute } from './services/router';
 
 const INITIAL_SETTINGS: EditorSettings = {
   h1Size: 36,
   h2Size: 28,
-  pSize: 16
+  pSize: 16,
+  trashRetentionDays: 30,
+  aiProvider: 'gemini',
+  aiModel: '',
+  aiBaseUrl: DEFAULT_AI_BASE_URL,
+  aiApiKey: ''
 };
 
-// Placeholder Note interface for Editor compatibility until fully refactored
-// We need to map DB 'nodes' to 'Note' structure expected by components
-const dbNodeToNote = (node: any): Note => ({
-  id: node.id,
-  title: node.title,
-  content: node.content || '',
-  subTopicId: node.parent_id || '', // mapping folder ID to subTopicId for compatibility
-  updatedAt: new Date(node.created_at).getTime()
-});
+const SETTINGS_KEY = 'monotext-settings';
+const TRASH_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+const loadSettings = (): EditorSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...INITIAL_SETTINGS, ...JSON.parse(stored) } : INITIAL_SETTINGS;
+  } catch (error) {
+    console.error('Error loading settings:', error);
+    return INITIAL_SETTINGS;
+  }
+};
 
 const App: React.FC = () => {
+  const repository = useNodeRepository();
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
 
-  const [editorSettings, setEditorSettings] = useState<EditorSettings>(INITIAL_SETTINGS);
+  const [editorSettings, setEditorSettings] = useState<EditorSettings>(loadSettings);
 
-  // Navigation State
-  const [selectedFolderId, setSelectedFolderId] = useState<string | null>(null);
-  const [selectedNoteId, setSelectedNoteId] = useState<string | null>(null);
+  // Navigation State: the URL hash is the source of truth
+  const route = useRoute();
   const [activeNote, setActiveNote] = useState<Note | null>(null);
+  const [noteMissing, setNoteMissing] = useState(false);
+  const selectedNoteId = route.name === 'note' ? route.id : null;
+  const selectedFolderId = route.name === 'folder' ? route.id
+    : route.name === 'note' && activeNote?.id === route.id ? activeNote.parentId
+    : null;
+
+  // Deep links on mobile go straight to the content instead of the folder list
+  const [sidebarOpen, setSidebarOpen] = useState(() => parseHash(window.location.hash).name === 'home');
 
-  const [sidebarOpen, setSidebarOpen] = useState(true);
+  // Global Search State
+  const [showSearch, setShowSearch] = useState(false);
+  const [searchHighlight, setSearchHighlight] = useState<{ noteId: string; query: string } | null>(null);
+  const [showPalette, setShowPalette] = useState(false);
 
   // Auth Handling
   useEffect(() => {
+    // The local replica is switched over to the account before anything reads or syncs it
+    const switchSession = (session: Session | null) => claimReplica(session?.user.id ?? null)
+      .catch(error => console.error('Error clearing local notes:', error))
+      .finally(() => setSession(session));
+
     supabase.auth.getSession().then(({ data: { session } }) => {
-      setSession(session);
-      setLoading(false);
+      switchSession(session).finally(() => setLoading(false));
     });
 
     const {
       data: { subscription },
     } = supabase.auth.onAuthStateChange((_event, session) => {
-      setSession(session);
+      switchSession(session);
     });
 
     return () => subscription.unsubscribe();
   }, []);
 
+  // Background sync of the local replica while signed in
+  useEffect(() => {
+    if (!session) return;
+    return startSync();
+  }, [session?.user.id]);
+
+  useEffect(() => {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(editorSettings));
+  }, [editorSettings]);
+
+  // Empty expired trash on start-up and periodically while the app stays open
+  useEffect(() => {
+    if (!session) return;
+    const purge = () => repository.purgeTrash(editorSettings.trashRetentionDays)
+      .catch(error => console.error('Error purging trash:', error));
+
+    purge();
+    const timer = setInterval(purge, TRASH_PURGE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [session?.user.id, editorSettings.trashRetentionDays, repository]);
+
+  // Move images still embedded in notes as data URLs into object storage.
+  // Waits for a sync first so notes that so far exist only remotely are included,
+  // and runs until a pass leaves nothing behind.
+  useEffect(() => {
+    const userId = session?.user.id;
+    if (!userId || !navigator.onLine || hasMigratedImages(userId)) return;
+    syncNow()
+      .then(() => migrateInlineImages(repository))
+      .then(({ remaining }) => {
+        if (!remaining) markImagesMigrated(userId);
+      })
+      .catch(error => console.error('Error migrating embedded images:', error));
+  }, [session?.user.id, repository]);
+
+  // Ctrl/Cmd+Shift+F opens search and Ctrl/Cmd+K the command palette, from anywhere
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      if (e.shiftKey && e.key.toLowerCase() === 'f') {
+        e.preventDefault();
+        setShowSearch(true);
+      } else if (!e.shiftKey && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setShowPalette(open => !open);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const openFolder = (folderId: string | null) => {
+    navigate(folderId ? { name: 'folder', id: folderId } : { name: 'home' });
+    if (window.innerWidth < 768) setSidebarOpen(false);
+  };
+
+  const openNote = (note: NodeRecord) => {
+    navigate({ name: 'note', id: note.id });
+    if (window.innerWidth < 768) setSidebarOpen(false);
+  };
+
+  const goHome = () => {
+    navigate({ name: 'home' });
+    setSidebarOpen(true);
+  };
+
+  const handleCreateNote = async () => {
+    const folderId = activeNote?.parentId ?? selectedFolderId;
+    if (!folderId) {
+      alert('Select a folder first');
+      return;
+    }
+    try {
+      openNote(await repository.create({ title: 'Untitled Note', content: '<p></p>', type: 'file', parent_id: folderId }));
+    } catch (error) {
+      console.error('Error creating note:', error);
+      alert('Failed to create note');
+    }
+  };
+
+  useCommands([
+    { id: 'app.newNote', title: 'New Note', group: 'Notes', run: handleCreateNote },
+    { id: 'app.search', title: 'Search Notes', group: 'Notes', shortcut: 'Ctrl+Shift+F', run: () => setShowSearch(true) }
+  ]);
+
+  const handleSelectSearchResult = (note: NodeRecord, query: string) => {
+    setShowSearch(false);
+    setSearchHighlight({ noteId: note.id, query });
+    openNote(note);
+  };
+
   // Fetch Note Content when note is selected
   useEffect(() => {
     const fetchNote = async () => {
       if (!selectedNoteId) {
         setActiveNote(null);
+        setNoteMissing(false);
         return;
       }
 
-      const { data } = await supabase
-        .from('nodes')
-        .select('*')
-        .eq('id', selectedNoteId)
-        .single();
+      let data: NodeRecord | undefined;
+      try {
+        data = await repository.get(selectedNoteId);
+      } catch (error) {
+        // Leave the broken address rather than stacking it in history
+        console.error('Error loading note:', error);
+        alert('Could not open the note');
+        navigate({ name: 'home' }, { replace: true });
+        return;
+      }
 
-      if (data) {
-        setActiveNote(dbNodeToNote(data));
+      if (data && data.type === 'file' && !data.trashed_at) {
+        setActiveNote(toNote(data));
+        setNoteMissing(false);
+      } else {
+        setNoteMissing(true);
       }
     };
 
     fetchNote();
-  }, [selectedNoteId]);
+    // The replica may still be filling on first load
+    return repository.subscribe(fetchNote);
+  }, [selectedNoteId, repository]);
 
   const handleUpdateNote = async (id: string, title: string, content: string) => {
     // Optimistic update
@@ -92,13 +227,11 @@ const App: React.FC = () => {
       <div className={`${sidebarOpen ? 'block' : 'hidden'} md:block absolute md:relative z-20 h-full shadow-xl md:shadow-none`}>
         <Sidebar
           selectedFolderId={selectedFolderId}
-          onSelectFolder={(id) => {
-            setSelectedFolderId(id);
-            setSelectedNoteId(null);
-            if (window.innerWidth < 768) setSidebarOpen(false);
-          }}
+          onSelectFolder={openFolder}
+          onGoHome={goHome}
           settings={editorSettings}
           onUpdateSettings={setEditorSettings}
+          onOpenSearch={() => setShowSearch(true)}
         />
       </div>
 
@@ -117,21 +250,42 @@ const App: React.FC = () => {
           </div>
         )}
 
-        {selectedNoteId && activeNote ? (
+        {selectedNoteId && noteMissing ? (
+          <NotFound kind="note" onBack={goHome} />
+        ) : selectedNoteId && activeNote?.id === selectedNoteId ? (
           <Editor
+            key={activeNote.id}
             note={activeNote}
+            highlightQuery={searchHighlight?.noteId === activeNote.id ? searchHighlight.query : undefined}
             onUpdate={handleUpdateNote}
-            onBack={() => setSelectedNoteId(null)}
+            onBack={() => openFolder(activeNote.parentId)}
             settings={editorSettings}
           />
+        ) : selectedNoteId ? (
+          <div className="flex-1 flex items-center justify-center text-sm text-gray-400">Loading note...</div>
         ) : (
           <NoteList
             selectedFolderId={selectedFolderId}
-            onSelectNote={(id) => setSelectedNoteId(id)}
-            onBack={() => { setSidebarOpen(true); setSelectedFolderId(null); }}
+            onSelectNote={(id) => navigate({ name: 'note', id })}
+            onBack={goHome}
           />
         )}
       </div>
+
+      {showPalette && (
+        <CommandPalette
+          onOpenFolder={(folder) => openFolder(folder.id)}
+          onOpenNote={openNote}
+          onClose={() => setShowPalette(false)}
+        />
+      )}
+
+      {showSearch && (
+        <SearchDialog
+          onSelect={handleSelectSearchResult}
+          onClose={() => setShowSearch(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,10 @@
+import { aiProxyConfigFromEnv, createAiProxy } from '../server/aiProxy';
+
+// Vercel function for the AI proxy. Needs GEMINI_API_KEY, SUPABASE_URL and
+// SUPABASE_ANON_KEY; AI_REQUESTS_PER_MINUTE, AI_REQUESTS_PER_DAY and AI_MODELS
+// are optional.
+const handleAiRequest = createAiProxy(aiProxyConfigFromEnv(process.env));
+
+export async function POST(request: Request): Promise<Response> {
+  return handleAiRequest(request);
+}
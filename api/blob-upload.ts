@@ -0,0 +1,49 @@
+import { handleUpload, type HandleUploadBody } from '@vercel/blob/client';
+import { createClient } from '@supabase/supabase-js';
+
+// Vercel function that issues client upload tokens for note images
+// (VITE_IMAGE_STORAGE=vercel). Only signed-in users get a token, and only for
+// images. Needs BLOB_READ_WRITE_TOKEN, SUPABASE_URL and SUPABASE_ANON_KEY.
+
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+const REQUIRED_ENV = ['BLOB_READ_WRITE_TOKEN', 'SUPABASE_URL', 'SUPABASE_ANON_KEY'];
+
+const missingEnv = REQUIRED_ENV.filter(name => !process.env[name]);
+
+const supabase = missingEnv.length ? null : createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_ANON_KEY!);
+
+export async function POST(request: Request): Promise<Response> {
+  if (!supabase) {
+    console.error(`Image uploads are not configured, missing ${missingEnv.join(', ')}`);
+    return Response.json({ error: 'Image uploads are not configured' }, { status: 500 });
+  }
+
+  let body: HandleUploadBody;
+  try {
+    body = (await request.json()) as HandleUploadBody;
+  } catch {
+    return Response.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  try {
+    const result = await handleUpload({
+      request,
+      body,
+      onBeforeGenerateToken: async () => {
+        const token = request.headers.get('authorization')?.replace(/^Bearer /, '');
+        const { data, error } = token ? await supabase.auth.getUser(token) : { data: null, error: null };
+        if (error || !data?.user) throw new Error('Not signed in');
+
+        return {
+          allowedContentTypes: ['image/png', 'image/jpeg', 'image/gif', 'image/webp'],
+          maximumSizeInBytes: MAX_IMAGE_BYTES,
+          tokenPayload: JSON.stringify({ userId: data.user.id })
+        };
+      }
+    });
+    return Response.json(result);
+  } catch (error) {
+    return Response.json({ error: (error as Error).message }, { status: 400 });
+  }
+}
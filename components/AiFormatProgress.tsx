@@ -0,0 +1,51 @@
+import React from 'react';
+import { Check, Circle, Loader2, Sparkles } from 'lucide-react';
+import { FormatSection } from '../services/aiProvider';
+
+interface AiFormatProgressProps {
+    sections: FormatSection[];
+    onCancel: () => void;
+}
+
+// Shown while AI Format runs: one row per section of the note
+const AiFormatProgress: React.FC<AiFormatProgressProps> = ({ sections, onCancel }) => {
+    const done = sections.filter(section => section.status === 'done').length;
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+            <div className="bg-white rounded-xl shadow-2xl border border-black w-full max-w-md p-6 m-4 animate-in fade-in zoom-in duration-200">
+                <div className="flex justify-between items-center mb-4 border-b pb-2">
+                    <h3 className="text-xl font-bold flex items-center gap-2">
+                        <Sparkles size={20} className="text-blue-600" />
+                        AI Format
+                    </h3>
+                    <span className="text-sm text-gray-500">
+                        {sections.length ? `${done} of ${sections.length} sections` : 'Starting...'}
+                    </span>
+                </div>
+
+                <ul className="space-y-2 max-h-72 overflow-y-auto text-sm">
+                    {sections.map((section, index) => (
+                        <li key={index} className="flex items-center gap-2">
+                            {section.status === 'done' ? <Check size={16} className="text-green-600 shrink-0" />
+                                : section.status === 'formatting' ? <Loader2 size={16} className="animate-spin text-blue-600 shrink-0" />
+                                : <Circle size={16} className="text-gray-300 shrink-0" />}
+                            <span className={`flex-1 truncate ${section.status === 'pending' ? 'text-gray-400' : ''}`}>{section.title}</span>
+                            {section.received > 0 && (
+                                <span className="text-xs text-gray-400">{section.received.toLocaleString()} chars</span>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+
+                <div className="pt-4 flex justify-end">
+                    <button onClick={onCancel} className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg border border-gray-200">
+                        Cancel
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default AiFormatProgress;
@@ -0,0 +1,128 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, Check, Sparkles, X } from 'lucide-react';
+import { DiffHunk, applyHunks, blockText, changesText, renderWordDiff } from '../services/htmlDiff';
+import { parseHtml, renderDoc } from '../services/documentModel';
+
+interface AiFormatReviewProps {
+    hunks: DiffHunk[];
+    onApply: (html: string) => void;
+    onClose: () => void;
+}
+
+// Blocks as the editor shows them, with math typeset
+const renderBlocks = (blocks: string[]) => renderDoc(parseHtml(blocks.join('')));
+
+// AI Format result as a block diff against the note. Each change can be
+// accepted or rejected; changes that alter the text itself, not just its
+// formatting, are flagged and start out rejected.
+const AiFormatReview: React.FC<AiFormatReviewProps> = ({ hunks, onApply, onClose }) => {
+    const textChanged = useMemo(() => hunks.map(hunk => hunk.changed && changesText(hunk)), [hunks]);
+    // Word diffs of the flagged changes, computed once rather than on every toggle
+    const wordDiffs = useMemo(() => hunks.map((hunk, index) => textChanged[index]
+        ? renderWordDiff(hunk.before.map(blockText).join(' '), hunk.after.map(blockText).join(' '))
+        : ''), [hunks, textChanged]);
+    const [accepted, setAccepted] = useState<boolean[]>(() => hunks.map((hunk, index) => hunk.changed && !textChanged[index]));
+
+    const changes = hunks.filter(hunk => hunk.changed).length;
+    const flagged = textChanged.filter(Boolean).length;
+    const acceptedCount = accepted.filter((value, index) => value && hunks[index].changed).length;
+
+    const setAll = (value: boolean) => setAccepted(hunks.map(hunk => hunk.changed && value));
+    const toggle = (index: number, value: boolean) => setAccepted(prev => prev.map((current, i) => i === index ? value : current));
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+            <div className="bg-white rounded-xl shadow-2xl border border-black w-full max-w-3xl p-6 m-4 animate-in fade-in zoom-in duration-200 max-h-[90vh] flex flex-col">
+                <div className="flex justify-between items-center mb-4 border-b pb-2">
+                    <h3 className="text-xl font-bold flex items-center gap-2">
+                        <Sparkles size={20} className="text-blue-600" />
+                        Review AI Format
+                    </h3>
+                    <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded-full">
+                        <X size={20} />
+                    </button>
+                </div>
+
+                {flagged > 0 && (
+                    <div className="mb-3 p-3 bg-amber-50 border border-amber-300 rounded-lg text-sm text-amber-800 flex gap-2">
+                        <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+                        <span>
+                            The AI changed or dropped text in {flagged} {flagged === 1 ? 'place' : 'places'}, not just its formatting.
+                            {' '}{flagged === 1 ? 'That change starts' : 'Those changes start'} rejected; check before accepting.
+                        </span>
+                    </div>
+                )}
+
+                <div className="flex justify-between items-center mb-3 text-sm">
+                    <span className="text-gray-500">
+                        {changes ? `${acceptedCount} of ${changes} changes accepted` : 'The AI made no changes.'}
+                    </span>
+                    {changes > 0 && (
+                        <div className="flex gap-2">
+                            <button onClick={() => setAll(true)} className="px-3 py-1 rounded border border-gray-200 hover:bg-gray-100">Accept all</button>
+                            <button onClick={() => setAll(false)} className="px-3 py-1 rounded border border-gray-200 hover:bg-gray-100">Reject all</button>
+                        </div>
+                    )}
+                </div>
+
+                <div className="flex-1 overflow-y-auto border rounded-lg p-4 space-y-3">
+                    {hunks.map((hunk, index) => !hunk.changed ? (
+                        <div key={index} className="editor-content text-gray-400" dangerouslySetInnerHTML={{ __html: renderBlocks(hunk.after) }} />
+                    ) : (
+                        <div key={index} className={`border rounded-lg p-3 ${textChanged[index] ? 'border-amber-400' : 'border-gray-300'}`}>
+                            <div className="flex justify-between items-center mb-2 text-xs">
+                                <span className={`font-bold uppercase ${textChanged[index] ? 'text-amber-700' : 'text-gray-400'}`}>
+                                    {textChanged[index] ? 'Text changed'
+                                        : !hunk.after.length ? 'Removed'
+                                        : !hunk.before.length ? 'Added'
+                                        : 'Formatting'}
+                                </span>
+                                <div className="flex gap-1">
+                                    <button
+                                        onClick={() => toggle(index, true)}
+                                        className={`px-2 py-1 rounded border flex items-center gap-1 ${accepted[index] ? 'bg-black text-white border-black' : 'border-gray-200 hover:bg-gray-100'}`}
+                                    >
+                                        <Check size={12} /> Accept
+                                    </button>
+                                    <button
+                                        onClick={() => toggle(index, false)}
+                                        className={`px-2 py-1 rounded border flex items-center gap-1 ${!accepted[index] ? 'bg-black text-white border-black' : 'border-gray-200 hover:bg-gray-100'}`}
+                                    >
+                                        <X size={12} /> Reject
+                                    </button>
+                                </div>
+                            </div>
+                            {hunk.before.length > 0 && (
+                                <div className={`editor-content diff-block-del ${accepted[index] ? '' : 'opacity-50'}`} dangerouslySetInnerHTML={{ __html: renderBlocks(hunk.before) }} />
+                            )}
+                            {hunk.after.length > 0 && (
+                                <div className={`editor-content diff-block-ins mt-1 ${accepted[index] ? '' : 'opacity-50'}`} dangerouslySetInnerHTML={{ __html: renderBlocks(hunk.after) }} />
+                            )}
+                            {textChanged[index] && (
+                                <p
+                                    className="mt-2 text-sm text-gray-700"
+                                    dangerouslySetInnerHTML={{ __html: wordDiffs[index] }}
+                                />
+                            )}
+                        </div>
+                    ))}
+                </div>
+
+                <div className="pt-4 flex justify-end gap-2">
+                    <button onClick={onClose} className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg border border-gray-200">
+                        Cancel
+                    </button>
+                    <button
+                        onClick={() => onApply(applyHunks(hunks, index => accepted[index]))}
+                        disabled={!acceptedCount}
+                        className="bg-black text-white px-6 py-2 rounded-lg font-medium hover:bg-gray-800 disabled:opacity-50 flex items-center gap-2"
+                    >
+                        <Sparkles size={16} /> Apply
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default AiFormatReview;
@@ -0,0 +1,139 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Command as CommandIcon, FileText, Folder } from 'lucide-react';
+import { NodeRecord } from '../types';
+import { useNodeRepository } from '../services/repositoryContext';
+import { Command, getCommands } from '../services/commandRegistry';
+import { fuzzyMatch } from '../services/fuzzyMatch';
+import { folderPath } from '../services/searchService';
+
+interface CommandPaletteProps {
+    onOpenFolder: (folder: NodeRecord) => void;
+    onOpenNote: (note: NodeRecord) => void;
+    onClose: () => void;
+}
+
+interface PaletteItem {
+    key: string;
+    title: string;
+    detail?: string;
+    icon: React.ReactNode;
+    shortcut?: string;
+    run: () => void;
+}
+
+const MAX_ITEMS = 50;
+
+const Highlighted = ({ text, indices }: { text: string; indices: number[] }) => {
+    const marked = new Set(indices);
+    return (
+        <>
+            {Array.from(text).map((char, index) =>
+                marked.has(index) ? <strong key={index} className="text-black">{char}</strong> : char
+            )}
+        </>
+    );
+};
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({ onOpenFolder, onOpenNote, onClose }) => {
+    const repository = useNodeRepository();
+    const [nodes, setNodes] = useState<NodeRecord[]>([]);
+    const [commands] = useState<Command[]>(getCommands);
+    const [query, setQuery] = useState('');
+    const [activeIndex, setActiveIndex] = useState(0);
+    const listRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        repository.list().then(setNodes).catch(error => console.error('Error loading palette items:', error));
+    }, [repository]);
+
+    const items = useMemo<PaletteItem[]>(() => [
+        ...commands.map(command => ({
+            key: `command:${command.id}`,
+            title: command.title,
+            detail: command.group,
+            icon: <CommandIcon size={14} />,
+            shortcut: command.shortcut,
+            run: command.run
+        })),
+        ...nodes.map(node => ({
+            key: `node:${node.id}`,
+            title: node.title || 'Untitled',
+            detail: folderPath(nodes, node).join(' / '),
+            icon: node.type === 'folder' ? <Folder size={14} /> : <FileText size={14} />,
+            run: () => node.type === 'folder' ? onOpenFolder(node) : onOpenNote(node)
+        }))
+    ], [commands, nodes, onOpenFolder, onOpenNote]);
+
+    const matches = useMemo(() => items
+        .map(item => ({ item, match: fuzzyMatch(query, item.title) }))
+        .filter((entry): entry is { item: PaletteItem; match: NonNullable<typeof entry.match> } => entry.match !== null)
+        .sort((a, b) => b.match.score - a.match.score)
+        .slice(0, MAX_ITEMS), [items, query]);
+
+    useEffect(() => setActiveIndex(0), [query]);
+
+    useEffect(() => {
+        listRef.current?.children[activeIndex]?.scrollIntoView({ block: 'nearest' });
+    }, [activeIndex]);
+
+    const runItem = (item: PaletteItem) => {
+        onClose();
+        // Let the palette unmount and focus return before the command runs
+        setTimeout(item.run, 0);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'ArrowDown') {
+            e.preventDefault();
+            setActiveIndex(i => Math.min(i + 1, matches.length - 1));
+        } else if (e.key === 'ArrowUp') {
+            e.preventDefault();
+            setActiveIndex(i => Math.max(i - 1, 0));
+        } else if (e.key === 'Enter' && matches[activeIndex]) {
+            runItem(matches[activeIndex].item);
+        } else if (e.key === 'Escape') {
+            onClose();
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-start justify-center bg-black/50 backdrop-blur-sm pt-[10vh]" onClick={onClose}>
+            <div
+                className="bg-white rounded-xl shadow-2xl border border-black w-full max-w-xl m-4 animate-in fade-in zoom-in duration-200 flex flex-col max-h-[60vh]"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <input
+                    autoFocus
+                    type="text"
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    className="p-4 border-b outline-none text-lg rounded-t-xl"
+                    placeholder="Type a command, folder or note..."
+                />
+
+                <div ref={listRef} className="overflow-y-auto py-1">
+                    {matches.map(({ item, match }, index) => (
+                        <button
+                            key={item.key}
+                            onClick={() => runItem(item)}
+                            onMouseEnter={() => setActiveIndex(index)}
+                            className={`w-full flex items-center gap-3 px-4 py-2 text-left text-sm ${index === activeIndex ? 'bg-gray-100' : ''}`}
+                        >
+                            <span className="text-gray-400 flex-shrink-0">{item.icon}</span>
+                            <span className="truncate text-gray-700"><Highlighted text={item.title} indices={match.indices} /></span>
+                            {item.detail && <span className="truncate text-xs text-gray-400">{item.detail}</span>}
+                            {item.shortcut && <kbd className="ml-auto text-xs text-gray-400 border rounded px-1.5 py-0.5 flex-shrink-0">{item.shortcut}</kbd>}
+                        </button>
+                    ))}
+
+                    {matches.length === 0 && (
+                        <p className="p-6 text-center text-sm text-gray-400">Nothing matches "{query}".</p>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default CommandPalette;
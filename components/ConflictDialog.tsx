@@ -0,0 +1,65 @@
+import React from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import { NodeRecord } from '../types';
+import { sanitizeHtml } from '../services/sanitizer';
+
+interface ConflictDialogProps {
+    mine: { title: string; content: string };
+    theirs: NodeRecord;
+    onKeepMine: () => void;
+    onUseTheirs: () => void;
+    onClose: () => void;
+}
+
+const ConflictDialog: React.FC<ConflictDialogProps> = ({ mine, theirs, onKeepMine, onUseTheirs, onClose }) => (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+        <div className="bg-white rounded-xl shadow-2xl border border-black w-full max-w-4xl p-6 m-4 animate-in fade-in zoom-in duration-200 max-h-[90vh] flex flex-col">
+            <div className="flex justify-between items-center mb-4 border-b pb-2">
+                <h3 className="text-xl font-bold flex items-center gap-2">
+                    <AlertTriangle size={20} className="text-orange-600" />
+                    This note changed somewhere else
+                </h3>
+                <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded-full">
+                    <X size={20} />
+                </button>
+            </div>
+
+            <p className="text-sm text-gray-500 mb-4">
+                A newer version was saved on {new Date(theirs.updated_at).toLocaleString()} while you were editing.
+                Autosave is paused until you pick which version to keep.
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 flex-1 overflow-hidden">
+                <VersionPane label="Your version" title={mine.title} content={mine.content} />
+                <VersionPane label="Saved version" title={theirs.title} content={theirs.content || ''} />
+            </div>
+
+            <div className="pt-4 flex justify-end gap-2">
+                <button
+                    onClick={onUseTheirs}
+                    className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg border border-gray-200"
+                >
+                    Use saved version
+                </button>
+                <button
+                    onClick={onKeepMine}
+                    className="bg-black text-white px-6 py-2 rounded-lg font-medium hover:bg-gray-800"
+                >
+                    Keep mine
+                </button>
+            </div>
+        </div>
+    </div>
+);
+
+const VersionPane = ({ label, title, content }: { label: string; title: string; content: string }) => (
+    <div className="flex flex-col border rounded-lg overflow-hidden">
+        <div className="px-3 py-2 bg-gray-50 border-b text-xs uppercase text-gray-400 font-bold">{label}</div>
+        <div className="p-4 overflow-y-auto flex-1">
+            <h4 className="font-bold text-lg mb-2">{title || 'Untitled'}</h4>
+            <div className="editor-content text-sm text-gray-800" dangerouslySetInnerHTML={{ __html: sanitizeHtml(content) }} />
+        </div>
+    </div>
+);
+
+export default ConflictDialog;
@@ -0,0 +1,63 @@
+import React, { useEffect } from 'react';
+
+export interface ContextMenuItem {
+  label: string;
+  icon?: React.ReactNode;
+  onSelect: () => void;
+  danger?: boolean;
+}
+
+interface ContextMenuProps {
+  position: { top: number; left: number };
+  items: ContextMenuItem[];
+  onClose: () => void;
+}
+
+const ContextMenu: React.FC<ContextMenuProps> = ({ position, items, onClose }) => {
+  // Any outside click, scroll or Escape dismisses the menu
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => e.key === 'Escape' && onClose();
+    window.addEventListener('click', onClose);
+    window.addEventListener('scroll', onClose, true);
+    window.addEventListener('keydown', handleKey);
+    return () => {
+      window.removeEventListener('click', onClose);
+      window.removeEventListener('scroll', onClose, true);
+      window.removeEventListener('keydown', handleKey);
+    };
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed z-50 bg-white border border-gray-200 rounded-lg shadow-xl py-1 min-w-[160px] animate-in fade-in zoom-in duration-100"
+      style={{
+        top: Math.min(position.top, window.innerHeight - items.length * 36 - 16),
+        left: Math.min(position.left, window.innerWidth - 176)
+      }}
+      onClick={(e) => e.stopPropagation()}
+      onContextMenu={(e) => e.preventDefault()}
+    >
+      {items.map(item => (
+        <button
+          key={item.label}
+          onClick={() => { onClose(); item.onSelect(); }}
+          className={`w-full flex items-center gap-2 px-3 py-2 text-sm text-left ${item.danger ? 'text-red-600 hover:bg-red-50' : 'text-gray-700 hover:bg-gray-100'}`}
+        >
+          {item.icon}
+          {item.label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+// Positions a menu at the pointer for right-clicks, or under the clicked button
+export const menuPositionFrom = (e: React.MouseEvent) => {
+  e.preventDefault();
+  e.stopPropagation();
+  if (e.type === 'contextmenu') return { top: e.clientY, left: e.clientX };
+  const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
+  return { top: rect.bottom + 4, left: rect.left };
+};
+
+export default ContextMenu;
@@ -1,10 +1,25 @@
-import React, { useRef, useEffect, useState } from 'react';
-import { Bold, Italic, List, ListOrdered, Image as ImageIcon, Sparkles, Save, Type, Heading1, Heading2, Loader2, Download, X, Replace, Eye, EyeOff, Sigma, FileText, Scaling } from 'lucide-react';
-import TurndownService from 'turndown';
-import { formatTextWithGemini, generateContextualContent, generateLatexFromText } from '../services/geminiService';
-import { supabase } from '../src/lib/supabase';
-import { Note, EditorSettings } from '../types';
-import katex from 'katex';
+import React, { useRef, useEffect, useMemo, useState } from 'react';
+import { Bold, Italic, List, ListOrdered, Image as ImageIcon, Sparkles, Save, Type, Heading1, Heading2, Loader2, Download, X, Replace, Sigma, FileText, Scaling, History, Undo2, Redo2, ChevronDown, Columns2 } from 'lucide-react';
+import { AiLength, FormatSection, createAiProvider } from '../services/aiProvider';
+import { contextAt, isAbortError } from '../services/aiRequests';
+import { useNodeRepository } from '../services/repositoryContext';
+import { NodeConflictError, revisionOf } from '../services/nodeRepository';
+import { Note, EditorSettings, NodeRecord, NodeRevision } from '../types';
+import { useCommands } from '../services/commandRegistry';
+import { DocSelection, escapeHtml, mathSource, parseHtml, posToDom, readDomState, renderDoc, renderStaticDoc, selectionRange } from '../services/documentModel';
+import { sanitizeDoc, sanitizeHtml } from '../services/sanitizer';
+import { KATEX_STYLESHEET } from '../services/mathRender';
+import { PdfOptions, exportPdf } from '../services/pdfExport';
+import { EditorCommand, insertHtml, insertImages, insertPlainText, insertText, setBlockType, setFont, toggleList, toggleMark } from '../services/editorCommands';
+import { EditorSnapshot, HistoryStep, RecordOptions, createEditorHistory } from '../services/editorHistory';
+import { docToMarkdown, markdownToDoc } from '../services/markdown';
+import { imageStorage, uploadInlineImages } from '../services/imageStorage';
+import { DiffHunk, diffBlocks } from '../services/htmlDiff';
+import ConflictDialog from './ConflictDialog';
+import HistoryPanel from './HistoryPanel';
+import PdfExportDialog from './PdfExportDialog';
+import AiFormatProgress from './AiFormatProgress';
+import AiFormatReview from './AiFormatReview';
 import 'katex/dist/katex.min.css';
 
 interface EditorProps {
@@ -12,17 +27,126 @@ interface EditorProps {
     onUpdate: (id: string, title: string, content: string) => void;
     onBack: () => void;
     settings: EditorSettings;
+    // Search term to select and scroll to once the note has loaded
+    highlightQuery?: string;
 }
 
-type AiLength = 'short' | 'medium' | 'long';
 type AiStep = 'input' | 'generating' | 'review';
+// 'source' shows only the Markdown; 'split' puts it beside the rich view
+type MarkdownMode = 'off' | 'source' | 'split';
+
+const AUTOSAVE_DELAY_MS = 1500;
+const MAX_LISTED_STEPS = 20;
+// Typing is snapshotted for undo once the user pauses, not on every keystroke
+const TYPING_STEP_DELAY_MS = 300;
+
+// Names for native edits recorded in the undo history
+const inputStepLabel = (inputType: string) =>
+    inputType === 'insertFromPaste' ? 'Paste'
+        : inputType === 'insertFromDrop' ? 'Drop'
+        : inputType.startsWith('delete') ? 'Delete'
+        : 'Typing';
+
+// Image files carried by a paste or drop
+const imageFiles = (data: DataTransfer) =>
+    Array.from<File>(data.files).filter(file => file.type.startsWith('image/'));
+
+// Collapsed range at a screen point, used to insert dropped content where it lands
+const rangeFromPoint = (x: number, y: number): Range | null => {
+    if (document.caretPositionFromPoint) {
+        const position = document.caretPositionFromPoint(x, y);
+        if (!position) return null;
+        const range = document.createRange();
+        range.setStart(position.offsetNode, position.offset);
+        return range;
+    }
+    return document.caretRangeFromPoint?.(x, y) ?? null;
+};
+
+// Skips the KaTeX markup inside rendered math nodes
+const textOutsideMath: NodeFilter = {
+    acceptNode: (node: Node) => node.parentElement?.closest('[data-math]') ? NodeFilter.FILTER_REJECT : NodeFilter.FILTER_ACCEPT
+};
+
+// First case-insensitive occurrence of `query` inside a single text node
+const findTextRange = (root: HTMLElement, query: string): Range | null => {
+    const needle = query.toLowerCase();
+    const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, textOutsideMath);
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+        const index = (node.nodeValue || '').toLowerCase().indexOf(needle);
+        if (index !== -1) {
+            const range = document.createRange();
+            range.setStart(node, index);
+            range.setEnd(node, index + query.length);
+            return range;
+        }
+    }
+    return null;
+};
+
+// Stored HTML goes through the document model before it reaches the DOM
+const toEditorHtml = (html: string) => renderDoc(sanitizeDoc(parseHtml(html)));
+
+const selectPositions = (root: HTMLElement, selection: DocSelection) => {
+    const anchor = posToDom(root, selection.anchor);
+    const head = posToDom(root, selection.head);
+    window.getSelection()?.setBaseAndExtent(anchor.node, anchor.offset, head.node, head.offset);
+};
+
+// Re-renders from the model, turning typed $...$ and closed math sources into math nodes
+const rerenderFromModel = (root: HTMLElement) => {
+    const selection = window.getSelection();
+    const range = selection && selection.rangeCount > 0 && root.contains(selection.anchorNode) ? selection.getRangeAt(0) : null;
+    const state = readDomState(root, range);
+    root.innerHTML = renderDoc(state.doc);
+    if (state.selection) selectPositions(root, state.selection);
+};
+
+// The math node right before or after a collapsed caret
+const adjacentMathNode = (range: Range, forward: boolean): HTMLElement | null => {
+    if (!range.collapsed) return null;
+    const { startContainer: container, startOffset: offset } = range;
+    let node: Node | null;
+    if (container.nodeType === Node.TEXT_NODE) {
+        const atEdge = forward ? offset === (container.nodeValue || '').length : offset === 0;
+        node = atEdge ? (forward ? container.nextSibling : container.previousSibling) : null;
+    } else {
+        node = container.childNodes[forward ? offset : offset - 1] ?? null;
+    }
+    return node instanceof HTMLElement && node.hasAttribute('data-math') ? node : null;
+};
 
-const Editor: React.FC<EditorProps> = ({ note, onUpdate, onBack, settings }) => {
+const Editor: React.FC<EditorProps> = ({ note, onUpdate, onBack, settings, highlightQuery }) => {
+    const repository = useNodeRepository();
+    const { aiProvider, aiModel, aiBaseUrl, aiApiKey } = settings;
+    const ai = useMemo(
+        () => createAiProvider({ aiProvider, aiModel, aiBaseUrl, aiApiKey }),
+        [aiProvider, aiModel, aiBaseUrl, aiApiKey]
+    );
     const contentRef = useRef<HTMLDivElement>(null);
     const [title, setTitle] = useState(note.title);
     const [isProcessing, setIsProcessing] = useState(false);
+    // Sections of an AI Format in progress
+    const [formatProgress, setFormatProgress] = useState<FormatSection[]>([]);
+    // A finished AI Format waiting for review, as a diff against the note
+    const [formatReview, setFormatReview] = useState<DiffHunk[] | null>(null);
+    // The running AI request, so it can be cancelled
+    const aiRequest = useRef<AbortController | null>(null);
+    const [isUploadingImage, setIsUploadingImage] = useState(false);
     const [isSaving, setIsSaving] = useState(false);
     const [lastSaved, setLastSaved] = useState<number | null>(null);
+    const [isDirty, setIsDirty] = useState(false);
+
+    // Autosave State: the revision this editor last loaded or wrote, so a stale
+    // tab can't silently overwrite a newer save
+    const baseRevision = useRef(note.updatedAt);
+    const autosaveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const saveQueue = useRef<Promise<void>>(Promise.resolve());
+    const latestContent = useRef(note.content);
+    const [conflict, setConflict] = useState<NodeRecord | null>(null);
+    // Whether the conflict came from sync pushing an edit the server had moved past,
+    // rather than this editor saving over a newer local version
+    const syncConflict = useRef(false);
 
     // AI Modal State
     const [showAiModal, setShowAiModal] = useState(false);
@@ -37,10 +161,6 @@ const Editor: React.FC<EditorProps> = ({ note, onUpdate, onBack, settings }) =>
     const [findTerm, setFindTerm] = useState('');
     const [replaceTerm, setReplaceTerm] = useState('');
 
-    // Preview Mode State (for LaTeX)
-    const [isPreviewMode, setIsPreviewMode] = useState(false);
-    const rawContentBeforePreview = useRef<string>('');
-
     // LaTeX Modal State
     const [showLatexModal, setShowLatexModal] = useState(false);
     const [latexQuery, setLatexQuery] = useState('');
@@ -48,8 +168,19 @@ const Editor: React.FC<EditorProps> = ({ note, onUpdate, onBack, settings }) =>
     const savedLatexRange = useRef<Range | null>(null);
 
     // Markdown View State
-    const [isMarkdownView, setIsMarkdownView] = useState(false);
+    const [markdownMode, setMarkdownMode] = useState<MarkdownMode>('off');
     const [markdownContent, setMarkdownContent] = useState('');
+    const isMarkdownView = markdownMode === 'source';
+
+    // Version History State
+    const [showHistory, setShowHistory] = useState(false);
+    const [showPdfDialog, setShowPdfDialog] = useState(false);
+
+    // Undo/Redo State
+    const undoHistory = useRef(createEditorHistory());
+    const typingStep = useRef<{ label: string; timer: ReturnType<typeof setTimeout> } | null>(null);
+    const [historySteps, setHistorySteps] = useState<{ done: HistoryStep[]; undone: HistoryStep[] }>({ done: [], undone: [] });
+    const [stepsMenuPos, setStepsMenuPos] = useState<{ top: number, left: number } | null>(null);
 
     // Image Resize State
     const [selectedImage, setSelectedImage] = useState<HTMLImageElement | null>(null);
@@ -60,12 +191,63 @@ const Editor: React.FC<EditorProps> = ({ note, onUpdate, onBack, settings }) =>
         // We only update innerHTML if it has changed significantly and we aren't typing
         // OR if we switched notes.
         if (contentRef.current && note.id !== contentRef.current.getAttribute('data-note-id')) {
-            contentRef.current.innerHTML = note.content;
+            const html = toEditorHtml(note.content);
+            contentRef.current.innerHTML = html;
             contentRef.current.setAttribute('data-note-id', note.id);
-            setIsPreviewMode(false);
+            if (typingStep.current) clearTimeout(typingStep.current.timer);
+            typingStep.current = null;
+            undoHistory.current.reset({ html, selection: null });
+            syncHistorySteps();
+            baseRevision.current = note.updatedAt;
+            latestContent.current = note.content;
         }
     }, [note.id]);
 
+    // Last caret position inside the editor, so palette commands can act on it
+    const lastSelection = useRef<Range | null>(null);
+    // Set by Ctrl/Cmd+Shift+V so the paste that follows drops all formatting
+    const pastePlainNext = useRef(false);
+    // Drags that start inside the editor are moved natively
+    const draggingInEditor = useRef(false);
+
+    // Jump to the search match this note was opened from
+    useEffect(() => {
+        if (!highlightQuery || !contentRef.current) return;
+        const range = findTextRange(contentRef.current, highlightQuery);
+        if (!range) return;
+
+        const selection = window.getSelection();
+        selection?.removeAllRanges();
+        selection?.addRange(range);
+        range.startContainer.parentElement?.scrollIntoView({ block: 'center' });
+    }, [note.id, highlightQuery]);
+
+    // A math source renders again once the caret leaves it
+    useEffect(() => {
+        const handleSelectionChange = () => {
+            const root = contentRef.current;
+            const source = root?.querySelector('[data-math-source]');
+            if (!root || !source) return;
+            const selection = window.getSelection();
+            if (selection && selection.rangeCount > 0 && source.contains(selection.anchorNode)) return;
+            rerenderFromModel(root);
+        };
+        document.addEventListener('selectionchange', handleSelectionChange);
+        return () => document.removeEventListener('selectionchange', handleSelectionChange);
+    }, []);
+
+    // Switching from typing to deleting (or pasting) closes the pending step
+    // before the new input lands, so each kind undoes separately
+    useEffect(() => {
+        const root = contentRef.current;
+        if (!root) return;
+        const handleBeforeInput = (e: InputEvent) => {
+            if (typingStep.current && typingStep.current.label !== inputStepLabel(e.inputType)) flushTypingStep();
+        };
+        root.addEventListener('beforeinput', handleBeforeInput);
+        return () => root.removeEventListener('beforeinput', handleBeforeInput);
+    }, []);
+
     // Apply settings to CSS variables
     const editorStyles = {
         '--editor-h1-size': `${settings.h1Size}px`,
@@ -73,21 +255,190 @@ const Editor: React.FC<EditorProps> = ({ note, onUpdate, onBack, settings }) =>
         '--editor-p-size': `${settings.pSize}px`
     } as React.CSSProperties;
 
-    const handleCommand = (command: string, value: string | undefined = undefined) => {
-        if (isPreviewMode) return;
-        document.execCommand(command, false, value);
-        contentRef.current?.focus();
+    // The live selection if it is in the editor, otherwise where the caret last was
+    const currentRange = (): Range | null => {
+        const selection = window.getSelection();
+        if (selection && selection.rangeCount > 0 && contentRef.current?.contains(selection.anchorNode)) {
+            return selection.getRangeAt(0);
+        }
+        return lastSelection.current;
+    };
+
+    // Applies a document command to the editor state and re-renders the result
+    const runCommand = (label: string, command: EditorCommand, range: Range | null = currentRange()) => {
+        const root = contentRef.current;
+        if (!root) return;
+        flushTypingStep();
+
+        const next = command(readDomState(root, range));
+        if (!next) return;
+
+        root.innerHTML = renderDoc(next.doc);
+        root.focus();
+        if (next.selection) selectPositions(root, next.selection);
+        setSelectedImage(null);
+        recordStep(label);
+        triggerUpdate();
+    };
+
+    const syncHistorySteps = () => setHistorySteps({
+        done: undoHistory.current.done(),
+        undone: undoHistory.current.undone()
+    });
+
+    // Records the editor's current content as a named undo step
+    const recordStep = (label: string, options?: RecordOptions) => {
+        const root = contentRef.current;
+        if (!root) return;
+        // Snapshots are rendered from the model so their positions line up on restore
+        const state = readDomState(root, currentRange());
+        const snapshot = { html: renderDoc(state.doc), selection: state.selection };
+        if (undoHistory.current.record(label, snapshot, options)) syncHistorySteps();
+    };
+
+    // Records typing still waiting for a pause, so it becomes its own step
+    // before anything else changes the editor
+    const flushTypingStep = () => {
+        const pending = typingStep.current;
+        if (!pending) return;
+        clearTimeout(pending.timer);
+        typingStep.current = null;
+        recordStep(pending.label, { coalesce: true });
+    };
+
+    const applySnapshot = (snapshot: EditorSnapshot) => {
+        const root = contentRef.current;
+        if (!root) return;
+        root.innerHTML = snapshot.html;
+        root.focus();
+        if (snapshot.selection) selectPositions(root, snapshot.selection);
+        setSelectedImage(null);
+        syncHistorySteps();
+        triggerUpdate();
+    };
+
+    // Undoes the last `count` steps. The recent steps list passes the position
+    // of the clicked step plus one, so that step is undone along with the newer ones
+    const handleUndo = (count = 1) => {
+        if (isMarkdownView) return;
+        flushTypingStep();
+        let snapshot: EditorSnapshot | null = null;
+        for (let i = 0; i < count; i++) snapshot = undoHistory.current.undo() ?? snapshot;
+        if (snapshot) applySnapshot(snapshot);
+    };
+
+    const handleRedo = () => {
+        if (isMarkdownView) return;
+        flushTypingStep();
+        const snapshot = undoHistory.current.redo();
+        if (snapshot) applySnapshot(snapshot);
+    };
+
+    const handleInput = (e: React.FormEvent<HTMLDivElement>) => {
+        const input = e.nativeEvent as InputEvent;
+        const label = inputStepLabel(input.inputType || '');
+        if (typingStep.current?.label !== label) flushTypingStep();
+        else clearTimeout(typingStep.current.timer);
+        typingStep.current = { label, timer: setTimeout(flushTypingStep, TYPING_STEP_DELAY_MS) };
+
+        // A closing $ renders the formula straight away, unless a source is being edited
+        const root = contentRef.current;
+        if (root && (input.data?.includes('$') || input.inputType === 'insertFromPaste') && !root.querySelector('[data-math-source]')) {
+            rerenderFromModel(root);
+        }
         triggerUpdate();
     };
 
-    const triggerUpdate = () => {
-        if (contentRef.current && !isPreviewMode) {
-            onUpdate(note.id, title, contentRef.current.innerHTML);
+    // Swaps a rendered math node for its editable $...$ source
+    const openMathSource = (mathNode: HTMLElement, caretAtEnd: boolean) => {
+        const display = mathNode.getAttribute('data-math') === 'display';
+        const source = document.createElement('span');
+        source.className = 'math-source';
+        source.setAttribute('data-math-source', '');
+        source.textContent = mathSource({ tex: mathNode.getAttribute('data-tex') || '', display });
+        mathNode.replaceWith(source);
+
+        const text = source.firstChild!;
+        const delimiter = display ? 2 : 1;
+        window.getSelection()?.collapse(text, caretAtEnd ? (text.nodeValue || '').length - delimiter : delimiter);
+        setSelectedImage(null);
+    };
+
+    const handleToggleStepsMenu = (e: React.MouseEvent) => {
+        if (stepsMenuPos) {
+            setStepsMenuPos(null);
+            return;
+        }
+        const rect = e.currentTarget.getBoundingClientRect();
+        setStepsMenuPos({ top: rect.bottom + 4, left: rect.left });
+    };
+
+    // Canonical HTML for saving, serialized from the document model
+    const editorHtml = () => contentRef.current ? sanitizeHtml(contentRef.current.innerHTML) : latestContent.current;
+
+    const triggerUpdate = ({ fromMarkdown = false } = {}) => {
+        if (contentRef.current) {
+            latestContent.current = contentRef.current.innerHTML;
+            // Keep an open Markdown pane in step with rich edits
+            if (markdownMode !== 'off' && !fromMarkdown) {
+                setMarkdownContent(docToMarkdown(readDomState(contentRef.current, null).doc));
+            }
+            onUpdate(note.id, title, latestContent.current);
+            scheduleAutosave();
+        }
+    };
+
+    const scheduleAutosave = () => {
+        setIsDirty(true);
+        if (autosaveTimer.current) clearTimeout(autosaveTimer.current);
+        autosaveTimer.current = setTimeout(() => {
+            autosaveTimer.current = null;
+            handleSaveRef.current({ silent: true });
+        }, AUTOSAVE_DELAY_MS);
+    };
+
+    const handleEditorBlur = () => {
+        const selection = window.getSelection();
+        if (selection && selection.rangeCount > 0 && contentRef.current?.contains(selection.anchorNode)) {
+            lastSelection.current = selection.getRangeAt(0).cloneRange();
+        }
+        triggerUpdate();
+    };
+
+    const restoreEditorSelection = () => {
+        contentRef.current?.focus();
+        const selection = window.getSelection();
+        if (selection && lastSelection.current) {
+            selection.removeAllRanges();
+            selection.addRange(lastSelection.current);
         }
     };
 
     const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
-        if (isPreviewMode) return;
+        if ((e.ctrlKey || e.metaKey) && e.shiftKey && e.key.toLowerCase() === 'v') {
+            pastePlainNext.current = true;
+        }
+
+        // Native undo can't see programmatic edits, so the editor history replaces it
+        if ((e.ctrlKey || e.metaKey) && (e.key.toLowerCase() === 'z' || e.key.toLowerCase() === 'y')) {
+            e.preventDefault();
+            if (e.key.toLowerCase() === 'y' || e.shiftKey) handleRedo();
+            else handleUndo();
+            return;
+        }
+
+        // Arrowing into a math node opens its source
+        if ((e.key === 'ArrowLeft' || e.key === 'ArrowRight') && !e.shiftKey) {
+            const selection = window.getSelection();
+            const mathNode = selection && selection.rangeCount > 0
+                ? adjacentMathNode(selection.getRangeAt(0), e.key === 'ArrowRight')
+                : null;
+            if (mathNode) {
+                e.preventDefault();
+                openMathSource(mathNode, e.key === 'ArrowLeft');
+                return;
+            }
+        }
 
         // Intercept '@' key
         if (e.key === '@') {
@@ -108,156 +459,174 @@ const Editor: React.FC<EditorProps> = ({ note, onUpdate, onBack, settings }) =>
         }
     };
 
+    const startAiRequest = () => {
+        aiRequest.current?.abort();
+        aiRequest.current = new AbortController();
+        return aiRequest.current.signal;
+    };
+
+    const cancelAiRequest = () => {
+        aiRequest.current?.abort();
+        aiRequest.current = null;
+    };
+
+    // Don't leave a request streaming into an editor that is gone
+    useEffect(() => () => aiRequest.current?.abort(), []);
+
+    const closeAiModal = () => {
+        cancelAiRequest();
+        setShowAiModal(false);
+    };
+
     const handleAiGeneration = async () => {
         if (!aiQuery.trim()) return;
 
+        const signal = startAiRequest();
+        setGeneratedPreview('');
         setAiStep('generating');
         try {
-            const contextText = contentRef.current?.innerText || "";
-            const generatedContent = await generateContextualContent(aiQuery, contextText, aiLength);
+            // The text around the cursor, not the start of the note, is the relevant context
+            const state = contentRef.current ? readDomState(contentRef.current, savedRange.current) : null;
+            const [from, to] = state?.selection ? selectionRange(state.selection) : [];
+            const context = state ? contextAt(state.doc, from, to) : { before: '', after: '' };
+            const generatedContent = await ai.generateContent(aiQuery, context, aiLength, {
+                signal,
+                onPartial: html => { if (!signal.aborted) setGeneratedPreview(html); }
+            });
             setGeneratedPreview(generatedContent);
             setAiStep('review');
         } catch (error) {
-            alert("Failed to generate content. Please try again.");
+            // A cancelled request goes back to the prompt without complaint
+            if (!isAbortError(error)) alert("Failed to generate content. Please try again.");
             setAiStep('input');
         }
     };
 
     const handleInsertAiContent = () => {
         if (savedRange.current) {
-            const selection = window.getSelection();
-            if (selection) {
-                selection.removeAllRanges();
-                selection.addRange(savedRange.current);
-
-                // Insert the generated HTML wrapped in a highlight span
-                const htmlToInsert = `<span class="ai-highlight">${generatedPreview}</span>&nbsp;`;
-                document.execCommand('insertHTML', false, htmlToInsert);
-                triggerUpdate();
-            }
+            // Insert the generated content highlighted so it stands out for review
+            runCommand('Insert AI content', insertHtml(generatedPreview, [{ type: 'highlight' }]), savedRange.current);
         }
         setShowAiModal(false);
     };
 
-    const handleTogglePreview = () => {
-        if (!contentRef.current) return;
+    // Images go to object storage; the note only keeps their URLs
+    const insertImageFiles = async (label: string, files: File[], range: Range | null) => {
+        setIsUploadingImage(true);
+        try {
+            const urls = await Promise.all(files.map(file => imageStorage.upload(file)));
+            runCommand(label, insertImages(urls), range);
+        } catch (error) {
+            console.error('Error uploading image:', error);
+            alert('Could not upload image');
+        } finally {
+            setIsUploadingImage(false);
+        }
+    };
 
-        if (!isPreviewMode) {
-            // Switch to Preview: Save raw HTML, then render LaTeX
-            rawContentBeforePreview.current = contentRef.current.innerHTML;
-            setIsPreviewMode(true);
+    const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (file) insertImageFiles('Insert image', [file], currentRange());
+    };
 
-            // Defer rendering to ensure state update has processed
-            setTimeout(() => {
-                if (!contentRef.current) return;
-
-                try {
-                    // Walk through all text nodes and render LaTeX
-                    const walker = document.createTreeWalker(
-                        contentRef.current,
-                        NodeFilter.SHOW_TEXT,
-                        null
-                    );
-
-                    const nodesToReplace: Array<{ node: Node, parent: Node, html: string }> = [];
-                    let node = walker.nextNode();
-
-                    while (node) {
-                        const text = node.textContent || '';
-
-                        // Check if this text node contains LaTeX delimiters
-                        if (text.includes('$')) {
-                            const parent = node.parentNode;
-                            if (parent) {
-                                // Process the text to find and render LaTeX
-                                const processedHtml = processLatexInText(text);
-                                if (processedHtml !== text) {
-                                    nodesToReplace.push({ node, parent, html: processedHtml });
-                                }
-                            }
-                        }
-                        node = walker.nextNode();
-                    }
-
-                    // Replace nodes with rendered LaTeX
-                    nodesToReplace.forEach(({ node, parent, html }) => {
-                        const span = document.createElement('span');
-                        span.innerHTML = html;
-                        parent.replaceChild(span, node);
-                    });
-
-                } catch (error) {
-                    console.error('KaTeX rendering error:', error);
-                }
-            }, 100);
-        } else {
-            // Switch back to Edit: Restore raw HTML
-            setIsPreviewMode(false);
-            contentRef.current.innerHTML = rawContentBeforePreview.current;
+    // Foreign HTML goes through the document model, which keeps only what the
+    // editor supports; embedded images are uploaded on the way in
+    const insertForeignHtml = async (label: string, html: string, range: Range | null) => {
+        if (/<img[^>]+src=["']?data:/i.test(html)) setIsUploadingImage(true);
+        try {
+            runCommand(label, insertHtml((await uploadInlineImages(html)).html), range);
+        } catch (error) {
+            console.error('Error uploading pasted images:', error);
+            alert('Could not upload pasted images');
+        } finally {
+            setIsUploadingImage(false);
         }
     };
 
-    // Helper function to process LaTeX in text
-    const processLatexInText = (text: string): string => {
-        let result = text;
+    const handlePaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
+        const plain = pastePlainNext.current;
+        pastePlainNext.current = false;
+        // Text typed into an open math source stays raw
+        if (isMarkdownView || (e.target as HTMLElement).closest?.('[data-math-source]')) return;
+
+        const data = e.clipboardData;
+        const images = imageFiles(data);
+        const html = data.getData('text/html');
+        const text = data.getData('text/plain');
+        const range = currentRange();
+
+        if (images.length && !plain) {
+            e.preventDefault();
+            insertImageFiles('Paste image', images, range);
+        } else if (html && !plain) {
+            e.preventDefault();
+            insertForeignHtml('Paste', html, range);
+        } else if (text) {
+            e.preventDefault();
+            runCommand(plain ? 'Paste as plain text' : 'Paste', insertPlainText(text), range);
+        }
+    };
 
+    const handlePastePlainText = async () => {
+        const range = currentRange();
         try {
-            // First, handle display math ($$...$$)
-            result = result.replace(/\$\$([\s\S]+?)\$\$/g, (match, latex) => {
-                try {
-                    return katex.renderToString(latex.trim(), { displayMode: true, throwOnError: false });
-                } catch (e) {
-                    return match; // Return original if rendering fails
-                }
-            });
-
-            // Then, handle inline math ($...$)
-            result = result.replace(/\$([^\$]+?)\$/g, (match, latex) => {
-                try {
-                    return katex.renderToString(latex.trim(), { displayMode: false, throwOnError: false });
-                } catch (e) {
-                    return match; // Return original if rendering fails
-                }
-            });
+            const text = await navigator.clipboard.readText();
+            if (text) runCommand('Paste as plain text', insertPlainText(text), range);
         } catch (error) {
-            console.error('Error processing LaTeX:', error);
-            return text;
+            console.error('Error reading clipboard:', error);
+            alert('Clipboard access was blocked. Use Ctrl+Shift+V to paste as plain text.');
         }
+    };
 
-        return result;
+    const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+        if (!draggingInEditor.current && e.dataTransfer.types.includes('Files')) e.preventDefault();
     };
 
-    const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-        const file = e.target.files?.[0];
-        if (file) {
-            const reader = new FileReader();
-            reader.onload = (event) => {
-                if (event.target?.result) {
-                    handleCommand('insertImage', event.target.result as string);
-                }
-            };
-            reader.readAsDataURL(file);
-        }
+    const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+        if (draggingInEditor.current || isMarkdownView) return;
+        const data = e.dataTransfer;
+        const images = imageFiles(data);
+        const html = data.getData('text/html');
+        if (!images.length && !html) return;
+
+        e.preventDefault();
+        const point = rangeFromPoint(e.clientX, e.clientY);
+        const range = point && contentRef.current?.contains(point.startContainer) ? point : currentRange();
+        if (images.length) insertImageFiles('Drop image', images, range);
+        else insertForeignHtml('Drop', html, range);
     };
 
     const handleAiFormat = async () => {
-        if (!contentRef.current || isPreviewMode) return;
+        if (!contentRef.current) return;
+        const signal = startAiRequest();
+        setFormatProgress([]);
         setIsProcessing(true);
         try {
-            const currentHtml = contentRef.current.innerHTML;
-            const formattedHtml = await formatTextWithGemini(currentHtml);
-            contentRef.current.innerHTML = formattedHtml;
-            triggerUpdate();
+            // Make sure the pre-format content is in history before it is replaced
+            await handleSave({ silent: true });
+            const originalHtml = editorHtml();
+            const formattedHtml = await ai.formatText(originalHtml, { signal, onProgress: setFormatProgress });
+            if (signal.aborted) return;
+            setFormatReview(diffBlocks(originalHtml, formattedHtml));
         } catch (error) {
-            alert("Failed to format with AI. Check console or try again.");
+            // Cancelling keeps the note exactly as it was
+            if (!isAbortError(error)) alert("Failed to format with AI. Check console or try again.");
         } finally {
             setIsProcessing(false);
         }
     };
 
-    const handleOpenLatexModal = () => {
-        if (isPreviewMode) return;
+    const handleApplyFormat = (html: string) => {
+        setFormatReview(null);
+        if (!contentRef.current) return;
+        flushTypingStep();
+        contentRef.current.innerHTML = toEditorHtml(html);
+        recordStep('AI Format');
+        triggerUpdate();
+    };
 
+    const handleOpenLatexModal = () => {
         // Save the current cursor position
         const selection = window.getSelection();
         if (selection && selection.rangeCount > 0) {
@@ -276,19 +645,11 @@ const Editor: React.FC<EditorProps> = ({ note, onUpdate, onBack, settings }) =>
         setLatexGenerating(true);
 
         try {
-            const latex = await generateLatexFromText(latexQuery);
+            const latex = await ai.generateLatex(latexQuery);
 
-            // Restore the saved cursor position and insert
+            // Insert at the saved cursor position
             if (savedLatexRange.current) {
-                const selection = window.getSelection();
-                if (selection) {
-                    selection.removeAllRanges();
-                    selection.addRange(savedLatexRange.current);
-
-                    // Insert the generated latex at cursor
-                    document.execCommand('insertText', false, latex);
-                    triggerUpdate();
-                }
+                runCommand('Insert equation', insertText(latex), savedLatexRange.current);
             }
 
             setShowLatexModal(false);
@@ -301,7 +662,7 @@ const Editor: React.FC<EditorProps> = ({ note, onUpdate, onBack, settings }) =>
     };
 
     const handleOpenReplace = () => {
-        if (isPreviewMode || isMarkdownView) return;
+        if (isMarkdownView) return;
         const selection = window.getSelection();
         const text = selection ? selection.toString() : '';
         setFindTerm(text);
@@ -309,32 +670,36 @@ const Editor: React.FC<EditorProps> = ({ note, onUpdate, onBack, settings }) =>
         setShowReplaceModal(true);
     };
 
-    const handleToggleMarkdown = () => {
-        if (!contentRef.current) return;
-
-        if (isMarkdownView) {
-            setIsMarkdownView(false);
-        } else {
-            const turndownService = new TurndownService();
-            // Simple configuration to keep it clean
-            turndownService.addRule('strikethrough', {
-                filter: (node) => ['DEL', 'S', 'STRIKE'].includes(node.nodeName),
-                replacement: function (content) {
-                    return '~' + content + '~'
-                }
-            });
-            const md = turndownService.turndown(contentRef.current.innerHTML);
-            setMarkdownContent(md);
-            setIsMarkdownView(true);
-            setIsPreviewMode(false);
-            setSelectedImage(null);
+    // Opening a Markdown pane serializes the current document; choosing the open mode again closes it
+    const handleSetMarkdownMode = (mode: MarkdownMode) => {
+        const next = markdownMode === mode ? 'off' : mode;
+        flushTypingStep();
+        if (next !== 'off' && contentRef.current) {
+            setMarkdownContent(docToMarkdown(readDomState(contentRef.current, null).doc));
         }
+        setMarkdownMode(next);
+        setSelectedImage(null);
+    };
+
+    const handleMarkdownChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+        const markdown = e.target.value;
+        setMarkdownContent(markdown);
+        if (!contentRef.current) return;
+        contentRef.current.innerHTML = renderDoc(sanitizeDoc(markdownToDoc(markdown)));
+        recordStep('Markdown edit', { coalesce: true });
+        triggerUpdate({ fromMarkdown: true });
     };
 
     const handleEditorClick = (e: React.MouseEvent) => {
-        if (isPreviewMode || isMarkdownView) return;
+        if (isMarkdownView) return;
 
         const target = e.target as HTMLElement;
+        const mathNode = target.closest<HTMLElement>('[data-math]');
+        if (mathNode && contentRef.current?.contains(mathNode)) {
+            openMathSource(mathNode, true);
+            return;
+        }
+
         if (target.tagName === 'IMG') {
             const img = target as HTMLImageElement;
             setSelectedImage(img);
@@ -376,8 +741,10 @@ const Editor: React.FC<EditorProps> = ({ note, onUpdate, onBack, settings }) =>
 
     const handleResizeImage = (percentage: number) => {
         if (selectedImage) {
+            flushTypingStep();
             selectedImage.style.width = percentage === 0 ? 'auto' : `${percentage}%`;
             selectedImage.style.height = 'auto'; // Maintain aspect ratio
+            recordStep('Resize image');
             triggerUpdate();
             // Re-calculate pos just in case
             setTimeout(() => {
@@ -392,34 +759,34 @@ const Editor: React.FC<EditorProps> = ({ note, onUpdate, onBack, settings }) =>
 
     const handleReplace = () => {
         if (!contentRef.current || !findTerm) return;
+        flushTypingStep();
 
         const walker = document.createTreeWalker(
             contentRef.current,
             NodeFilter.SHOW_TEXT,
-            null
+            textOutsideMath
         );
 
         const nodesToUpdate: { node: Node, newValue: string }[] = [];
+        let count = 0;
         let currentNode = walker.nextNode();
 
         while (currentNode) {
             const text = currentNode.nodeValue || "";
             if (text.includes(findTerm)) {
-                const newText = text.split(findTerm).join(replaceTerm);
-                if (newText !== text) {
-                    nodesToUpdate.push({ node: currentNode, newValue: newText });
-                }
+                const parts = text.split(findTerm);
+                nodesToUpdate.push({ node: currentNode, newValue: parts.join(replaceTerm) });
+                count += parts.length - 1;
             }
             currentNode = walker.nextNode();
         }
 
-        let count = 0;
         nodesToUpdate.forEach(({ node, newValue }) => {
             node.nodeValue = newValue;
-            count++;
         });
 
         if (count > 0) {
+            recordStep(`Replace ${count} ${count === 1 ? 'match' : 'matches'}`);
             triggerUpdate();
             setShowReplaceModal(false);
         } else {
@@ -428,10 +795,11 @@ const Editor: React.FC<EditorProps> = ({ note, onUpdate, onBack, settings }) =>
     };
 
     const handleExport = () => {
-        // If in preview mode, export what we see (rendered math), otherwise raw
-        const htmlBody = contentRef.current?.innerHTML || '';
+        // Rendered from the saved form, so math is typeset but nothing is left editable
+        const htmlBody = renderStaticDoc(parseHtml(editorHtml()));
+        const heading = escapeHtml(title);
         const blob = new Blob([
-            `<!DOCTYPE html><html><head><title>${title}</title><link rel="stylesheet" href="https://cdn.jsdelivr.net/npm/katex@0.16.9/dist/katex.min.css"></head><body><h1>${title}</h1>${htmlBody}</body></html>`
+            `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${heading}</title><link rel="stylesheet" href="${KATEX_STYLESHEET}"></head><body><h1>${heading}</h1>${htmlBody}</body></html>`
         ], { type: 'text/html' });
         const url = URL.createObjectURL(blob);
         const a = document.createElement('a');
@@ -441,65 +809,158 @@ const Editor: React.FC<EditorProps> = ({ note, onUpdate, onBack, settings }) =>
         URL.revokeObjectURL(url);
     };
 
-    const handlePdfExport = () => {
-        if (!contentRef.current) return;
-
-        // Dynamic import or require to avoid SSR issues if any (though this is SPA)
-        // using functionality from html2pdf.js
-        const element = contentRef.current;
-        const opt = {
-            margin: [0.5, 0.5, 0.5, 0.5] as [number, number, number, number], // top, left, bottom, right
-            filename: `${title.replace(/\s+/g, '_')}.pdf`,
-            image: { type: 'jpeg' as const, quality: 0.98 },
-            html2canvas: { scale: 2, useCORS: true },
-            jsPDF: { unit: 'in' as const, format: 'letter' as const, orientation: 'portrait' as const }
-        };
+    const handlePdfExport = async (options: PdfOptions) => {
+        setShowPdfDialog(false);
+        try {
+            await exportPdf(title || 'Untitled', editorHtml(), options);
+        } catch (error) {
+            console.error('Error exporting PDF:', error);
+            alert('Could not export PDF');
+        }
+    };
 
-        // @ts-ignore
-        import('html2pdf.js').then(html2pdf => {
-            html2pdf.default().set(opt).from(element).save();
-        }).catch(err => console.error("Failed to load html2pdf", err));
+    // Title edits go through the same debounced save as content edits
+    const handleTitleChange = (value: string) => {
+        setTitle(value);
+        if (contentRef.current) latestContent.current = contentRef.current.innerHTML;
+        onUpdate(note.id, value, latestContent.current);
+        scheduleAutosave();
     };
 
-    // Auto-save effect for local state sync
-    useEffect(() => {
-        const timer = setTimeout(() => {
-            if (!isPreviewMode) {
-                triggerUpdate();
-                // We don't auto-save to cloud every keystroke to save requests, 
-                // but we update the local 'lastSaved' timestamp to show activity.
+    const handleSave = ({ silent = false, overwrite }: { silent?: boolean; overwrite?: NodeRecord } = {}) => {
+        if (autosaveTimer.current) {
+            clearTimeout(autosaveTimer.current);
+            autosaveTimer.current = null;
+        }
+        // Autosave stays paused while a conflict is waiting on the user
+        if (conflict && !overwrite) return saveQueue.current;
+
+        // Serialize saves so each one checks against the revision the previous one wrote
+        saveQueue.current = saveQueue.current.then(async () => {
+            setIsSaving(true);
+            try {
+                const content = editorHtml();
+                const saved = await repository.update(note.id, {
+                    title: title,
+                    content: content
+                }, { expectedUpdatedAt: overwrite ? revisionOf(overwrite) : baseRevision.current });
+
+                baseRevision.current = revisionOf(saved);
                 setLastSaved(Date.now());
+                setIsDirty(false);
+            } catch (error) {
+                if (error instanceof NodeConflictError) {
+                    setConflict(error.current);
+                    return;
+                }
+                console.error('Error saving document:', error);
+                if (!silent) alert('Failed to save document!');
+            } finally {
+                setIsSaving(false);
             }
-        }, 2000);
-        return () => clearTimeout(timer);
-        // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [title]);
+        });
+        return saveQueue.current;
+    };
 
-    const handleSave = async () => {
-        if (!contentRef.current) return;
-        setIsSaving(true);
-        try {
-            const content = contentRef.current.innerHTML;
-            const { error } = await supabase
-                .from('nodes')
-                .update({
-                    title: title,
-                    content: content
-                })
-                .eq('id', note.id);
+    // Timers and unmount cleanup call the latest handleSave, not a stale closure
+    const handleSaveRef = useRef(handleSave);
+    handleSaveRef.current = handleSave;
+
+    // Flush a pending autosave when leaving the note
+    useEffect(() => () => {
+        if (typingStep.current) clearTimeout(typingStep.current.timer);
+        if (autosaveTimer.current) handleSaveRef.current({ silent: true });
+    }, []);
+
+    const handleRestoreRevision = (revision: NodeRevision) => {
+        const content = revision.content || '';
+        flushTypingStep();
+        if (contentRef.current) contentRef.current.innerHTML = toEditorHtml(content);
+        recordStep('Restore version');
+        latestContent.current = content;
+        setTitle(revision.title);
+        onUpdate(note.id, revision.title, content);
+        scheduleAutosave();
+        setShowHistory(false);
+    };
 
-            if (error) throw error;
+    useEffect(() => repository.subscribeConflicts(theirs => {
+        if (theirs.id !== note.id) return;
+        syncConflict.current = true;
+        setConflict(theirs);
+    }), [repository, note.id]);
+
+    const handleKeepMine = async () => {
+        const theirs = conflict;
+        if (!theirs) return;
+        setConflict(null);
+        if (!syncConflict.current) {
+            handleSave({ overwrite: theirs });
+            return;
+        }
 
-            setLastSaved(Date.now());
-            // Optional: You could show a toast here
+        syncConflict.current = false;
+        try {
+            // The local copy holds the saved edits; anything newer in the editor follows it
+            handleSave({ overwrite: await repository.resolveConflict(note.id, 'mine') });
         } catch (error) {
-            console.error('Error saving document:', error);
-            alert('Failed to save document!');
-        } finally {
-            setIsSaving(false);
+            console.error('Error resolving conflict:', error);
+            alert('Could not keep your version');
+        }
+    };
+
+    const handleUseTheirs = async () => {
+        let theirs = conflict;
+        if (!theirs) return;
+        if (syncConflict.current) {
+            syncConflict.current = false;
+            try {
+                theirs = await repository.resolveConflict(note.id, 'theirs');
+            } catch (error) {
+                console.error('Error resolving conflict:', error);
+                alert('Could not load the saved version');
+                return;
+            }
         }
+
+        const content = theirs.content || '';
+        flushTypingStep();
+        if (contentRef.current) contentRef.current.innerHTML = toEditorHtml(content);
+        recordStep('Use saved version');
+        latestContent.current = content;
+        baseRevision.current = revisionOf(theirs);
+        setTitle(theirs.title);
+        onUpdate(note.id, theirs.title, content);
+        setIsDirty(false);
+        setConflict(null);
     };
 
+    // Palette commands run with the caret restored to where the user left it
+    const inEditor = (run: () => void) => () => {
+        if (isMarkdownView) return;
+        restoreEditorSelection();
+        run();
+    };
+
+    useCommands([
+        { id: 'editor.h1', title: 'Heading 1', group: 'Format', run: inEditor(() => runCommand('Heading 1', setBlockType({ type: 'heading', level: 1 }))) },
+        { id: 'editor.h2', title: 'Heading 2', group: 'Format', run: inEditor(() => runCommand('Heading 2', setBlockType({ type: 'heading', level: 2 }))) },
+        { id: 'editor.bullets', title: 'Bullet List', group: 'Format', run: inEditor(() => runCommand('Bullet list', toggleList(false))) },
+        { id: 'editor.numbers', title: 'Numbered List', group: 'Format', run: inEditor(() => runCommand('Numbered list', toggleList(true))) },
+        { id: 'editor.undo', title: 'Undo', group: 'Edit', shortcut: 'Ctrl+Z', run: () => handleUndo() },
+        { id: 'editor.redo', title: 'Redo', group: 'Edit', shortcut: 'Ctrl+Shift+Z', run: handleRedo },
+        { id: 'editor.latex', title: 'Generate LaTeX Equation', group: 'Insert', run: inEditor(handleOpenLatexModal) },
+        { id: 'editor.pastePlain', title: 'Paste as Plain Text', group: 'Edit', shortcut: 'Ctrl+Shift+V', run: inEditor(handlePastePlainText) },
+        { id: 'editor.replace', title: 'Find & Replace', group: 'Edit', run: inEditor(handleOpenReplace) },
+        { id: 'editor.markdown', title: isMarkdownView ? 'Back to Editor' : 'Edit Markdown Source', group: 'View', run: () => handleSetMarkdownMode('source') },
+        { id: 'editor.markdownSplit', title: markdownMode === 'split' ? 'Close Markdown Pane' : 'Markdown Side by Side', group: 'View', run: () => handleSetMarkdownMode('split') },
+        { id: 'editor.history', title: 'Version History', group: 'View', run: () => !isMarkdownView && setShowHistory(true) },
+        { id: 'editor.exportHtml', title: 'Export HTML', group: 'Export', run: handleExport },
+        { id: 'editor.exportPdf', title: 'Export PDF', group: 'Export', run: () => setShowPdfDialog(true) },
+        { id: 'editor.aiFormat', title: 'AI Format', group: 'AI', run: handleAiFormat },
+        { id: 'editor.save', title: 'Save', group: 'File', run: () => handleSave() }
+    ]);
+
     return (
         <div className="flex flex-col h-full bg-white relative">
             {/* Header / Toolbar */}
@@ -511,19 +972,30 @@ const Editor: React.FC<EditorProps> = ({ note, onUpdate, onBack, settings }) =>
                     <input
                         type="text"
                         value={title}
-                        onChange={(e) => setTitle(e.target.value)}
+                        onChange={(e) => handleTitleChange(e.target.value)}
                         className="text-2xl font-bold outline-none bg-transparent w-full placeholder-gray-400"
                         placeholder="Untitled Note"
-                        disabled={isPreviewMode}
                     />
                 </div>
 
                 <div className="flex items-center gap-1 bg-gray-50 border border-gray-200 p-1 rounded-lg shadow-sm overflow-x-auto">
                     {/* Toolbar Buttons - Disable when in preview mode */}
-                    <div className={(isPreviewMode || isMarkdownView) ? 'opacity-50 pointer-events-none flex items-center gap-1' : 'flex items-center gap-1'}>
+                    <div className={isMarkdownView ? 'opacity-50 pointer-events-none flex items-center gap-1' : 'flex items-center gap-1'}>
+                        <div className="flex items-center border-r border-gray-300 pr-2 mr-1">
+                            <ToolbarBtn onClick={() => handleUndo()} icon={<Undo2 size={18} />} title={historySteps.done[0] ? `Undo ${historySteps.done[0].label}` : 'Undo'} />
+                            <ToolbarBtn onClick={handleRedo} icon={<Redo2 size={18} />} title={historySteps.undone[0] ? `Redo ${historySteps.undone[0].label}` : 'Redo'} />
+                            <button
+                                onClick={handleToggleStepsMenu}
+                                onMouseDown={(e) => e.preventDefault()}
+                                title="Recent Steps"
+                                className="p-1 hover:bg-gray-200 rounded text-gray-500 transition-colors flex items-center justify-center"
+                            >
+                                <ChevronDown size={14} />
+                            </button>
+                        </div>
                         <div className="flex items-center gap-1 border-r border-gray-300 pr-2 mr-2">
                             <select
-                                onChange={(e) => handleCommand('fontName', e.target.value)}
+                                onChange={(e) => runCommand('Font', setFont(e.target.value))}
                                 className="text-sm border border-gray-200 rounded p-1 bg-white outline-none hover:border-gray-400 w-32"
                                 title="Font Family"
                                 defaultValue="Inter"
@@ -535,55 +1007,62 @@ const Editor: React.FC<EditorProps> = ({ note, onUpdate, onBack, settings }) =>
                             </select>
                         </div>
 
-                        <ToolbarBtn onClick={() => handleCommand('formatBlock', 'H1')} icon={<Heading1 size={18} />} title="Heading 1" />
-                        <ToolbarBtn onClick={() => handleCommand('formatBlock', 'H2')} icon={<Heading2 size={18} />} title="Heading 2" />
-                        <ToolbarBtn onClick={() => handleCommand('formatBlock', 'H3')} icon={<span className="font-bold text-sm">H3</span>} title="Heading 3" />
-                        <ToolbarBtn onClick={() => handleCommand('formatBlock', 'H4')} icon={<span className="font-bold text-xs uppercase">Sub</span>} title="Subheading (H4)" />
+                        <ToolbarBtn onClick={() => runCommand('Heading 1', setBlockType({ type: 'heading', level: 1 }))} icon={<Heading1 size={18} />} title="Heading 1" />
+                        <ToolbarBtn onClick={() => runCommand('Heading 2', setBlockType({ type: 'heading', level: 2 }))} icon={<Heading2 size={18} />} title="Heading 2" />
+                        <ToolbarBtn onClick={() => runCommand('Heading 3', setBlockType({ type: 'heading', level: 3 }))} icon={<span className="font-bold text-sm">H3</span>} title="Heading 3" />
+                        <ToolbarBtn onClick={() => runCommand('Heading 4', setBlockType({ type: 'heading', level: 4 }))} icon={<span className="font-bold text-xs uppercase">Sub</span>} title="Subheading (H4)" />
 
                         <div className="w-px h-6 bg-gray-300 mx-1"></div>
-                        <ToolbarBtn onClick={() => handleCommand('bold')} icon={<Bold size={18} />} title="Bold" />
-                        <ToolbarBtn onClick={() => handleCommand('italic')} icon={<Italic size={18} />} title="Italic" />
+                        <ToolbarBtn onClick={() => runCommand('Bold', toggleMark({ type: 'bold' }))} icon={<Bold size={18} />} title="Bold" />
+                        <ToolbarBtn onClick={() => runCommand('Italic', toggleMark({ type: 'italic' }))} icon={<Italic size={18} />} title="Italic" />
                         <div className="w-px h-6 bg-gray-300 mx-1"></div>
-                        <ToolbarBtn onClick={() => handleCommand('insertUnorderedList')} icon={<List size={18} />} title="Bullet List" />
-                        <ToolbarBtn onClick={() => handleCommand('insertOrderedList')} icon={<ListOrdered size={18} />} title="Numbered List" />
+                        <ToolbarBtn onClick={() => runCommand('Bullet list', toggleList(false))} icon={<List size={18} />} title="Bullet List" />
+                        <ToolbarBtn onClick={() => runCommand('Numbered list', toggleList(true))} icon={<ListOrdered size={18} />} title="Numbered List" />
                         <div className="w-px h-6 bg-gray-300 mx-1"></div>
                         <ToolbarBtn onClick={handleOpenLatexModal} icon={<Sigma size={18} />} title="Generate LaTeX Equation" />
                         <ToolbarBtn onClick={handleOpenReplace} icon={<Replace size={18} />} title="Find & Replace" />
                         <label className="p-2 hover:bg-gray-200 rounded cursor-pointer flex items-center justify-center transition-colors" title="Insert Image" onMouseDown={(e) => e.preventDefault()}>
-                            <ImageIcon size={18} />
-                            <input type="file" accept="image/*" className="hidden" onChange={handleImageUpload} />
+                            {isUploadingImage ? <Loader2 className="animate-spin" size={18} /> : <ImageIcon size={18} />}
+                            <input type="file" accept="image/*" className="hidden" onChange={handleImageUpload} disabled={isUploadingImage} />
                         </label>
                     </div>
 
                     <div className="w-px h-6 bg-gray-300 mx-1"></div>
-                    {/* LaTeX Preview Toggle */}
                     <button
-                        onClick={handleTogglePreview}
+                        onClick={() => handleSetMarkdownMode('source')}
                         onMouseDown={(e) => e.preventDefault()}
-                        title={isPreviewMode ? "Edit Mode" : "Preview Mode (Render LaTeX)"}
-                        disabled={isMarkdownView}
-                        className={`p-2 rounded transition-colors flex items-center justify-center ${isPreviewMode ? 'bg-blue-100 text-blue-700' : 'hover:bg-gray-200 text-gray-700'} ${isMarkdownView ? 'opacity-30' : ''}`}
+                        title={isMarkdownView ? "Back to Editor" : "Edit Markdown Source"}
+                        className={`p-2 rounded transition-colors flex items-center justify-center ${isMarkdownView ? 'bg-purple-100 text-purple-700' : 'hover:bg-gray-200 text-gray-700'}`}
                     >
-                        {isPreviewMode ? <EyeOff size={18} /> : <Eye size={18} />}
+                        <FileText size={18} />
                     </button>
                     <button
-                        onClick={handleToggleMarkdown}
+                        onClick={() => handleSetMarkdownMode('split')}
                         onMouseDown={(e) => e.preventDefault()}
-                        title={isMarkdownView ? "Back to Editor" : "View Markdown Source"}
-                        className={`p-2 rounded transition-colors flex items-center justify-center ${isMarkdownView ? 'bg-purple-100 text-purple-700' : 'hover:bg-gray-200 text-gray-700'}`}
+                        title={markdownMode === 'split' ? "Close Markdown Pane" : "Markdown Side by Side"}
+                        className={`p-2 rounded transition-colors flex items-center justify-center ${markdownMode === 'split' ? 'bg-purple-100 text-purple-700' : 'hover:bg-gray-200 text-gray-700'}`}
                     >
-                        <FileText size={18} />
+                        <Columns2 size={18} />
+                    </button>
+                    <button
+                        onClick={() => setShowHistory(true)}
+                        onMouseDown={(e) => e.preventDefault()}
+                        title="Version History"
+                        disabled={isMarkdownView}
+                        className={`p-2 rounded transition-colors flex items-center justify-center hover:bg-gray-200 text-gray-700 ${isMarkdownView ? 'opacity-30' : ''}`}
+                    >
+                        <History size={18} />
                     </button>
 
                     {/* Export Buttons */}
                     <div className="w-px h-6 bg-gray-300 mx-1"></div>
                     <ToolbarBtn onClick={handleExport} icon={<span className="text-xs font-bold">HTML</span>} title="Export HTML" />
-                    <ToolbarBtn onClick={handlePdfExport} icon={<Download size={18} />} title="Export PDF" />
+                    <ToolbarBtn onClick={() => setShowPdfDialog(true)} icon={<Download size={18} />} title="Export PDF" />
                 </div>
 
                 <div className="flex items-center gap-2">
                     <button
-                        onClick={handleSave}
+                        onClick={() => handleSave()}
                         disabled={isSaving}
                         className="flex items-center gap-2 bg-green-600 text-white px-4 py-2 rounded hover:bg-green-700 disabled:opacity-50 transition-all shadow-md text-sm font-medium"
                     >
@@ -592,7 +1071,7 @@ const Editor: React.FC<EditorProps> = ({ note, onUpdate, onBack, settings }) =>
                     </button>
                     <button
                         onClick={handleAiFormat}
-                        disabled={isProcessing || isPreviewMode}
+                        disabled={isProcessing}
                         className="flex items-center gap-2 bg-black text-white px-4 py-2 rounded hover:bg-gray-800 disabled:opacity-50 transition-all shadow-md text-sm font-medium"
                     >
                         {isProcessing ? <Loader2 className="animate-spin" size={16} /> : <Sparkles size={16} />}
@@ -605,41 +1084,56 @@ const Editor: React.FC<EditorProps> = ({ note, onUpdate, onBack, settings }) =>
             </div>
 
             {/* Editor Area */}
-            <div className="flex-1 overflow-y-auto p-8 md:px-24">
-                {isMarkdownView ? (
-                    <div className="w-full h-full min-h-[500px] p-4 bg-gray-50 font-mono text-sm whitespace-pre-wrap border rounded shadow-inner overflow-auto">
-                        {markdownContent}
-                    </div>
-                ) : (
-                    <div
-                        ref={contentRef}
-                        contentEditable={!isPreviewMode}
-                        className={`editor-content min-h-[500px] outline-none text-gray-800 ${isPreviewMode ? 'bg-gray-50 p-4 rounded border border-transparent' : ''}`}
-                        style={editorStyles}
-                        onInput={triggerUpdate}
-                        onBlur={triggerUpdate}
-                        onKeyDown={handleKeyDown}
-                        onClick={handleEditorClick}
-                        data-placeholder={isPreviewMode ? "" : "Start typing... press '@' for AI, use $...$ for Math"}
+            {/* The rich editor stays mounted (hidden in source mode) so Markdown edits land in it */}
+            <div className={`flex-1 overflow-y-auto p-8 ${markdownMode === 'split' ? 'grid grid-cols-2 gap-6 items-start' : 'md:px-24'}`}>
+                <div
+                    ref={contentRef}
+                    contentEditable
+                    className={`editor-content min-h-[500px] outline-none text-gray-800 ${isMarkdownView ? 'hidden' : ''}`}
+                    style={editorStyles}
+                    onInput={handleInput}
+                    onBlur={handleEditorBlur}
+                    onKeyDown={handleKeyDown}
+                    onClick={handleEditorClick}
+                    onPaste={handlePaste}
+                    onDragStart={() => { draggingInEditor.current = true; }}
+                    onDragEnd={() => { draggingInEditor.current = false; }}
+                    onDragOver={handleDragOver}
+                    onDrop={handleDrop}
+                    data-placeholder="Start typing... press '@' for AI, use $...$ for Math"
+                />
+                {markdownMode !== 'off' && (
+                    <textarea
+                        value={markdownContent}
+                        onChange={handleMarkdownChange}
+                        spellCheck={false}
+                        className="w-full min-h-[500px] h-full p-4 bg-gray-50 font-mono text-sm border rounded shadow-inner outline-none resize-none"
+                        placeholder="Write Markdown..."
                     />
                 )}
             </div>
 
             <div className="p-2 text-xs text-gray-400 border-t border-gray-100 text-center flex justify-between px-4">
-                <span>{isPreviewMode ? 'Preview Mode (Read Only)' : isMarkdownView ? 'Markdown View' : 'Edit Mode'}</span>
-                {lastSaved ? `Last synced ${new Date(lastSaved).toLocaleTimeString()}` : 'Unsaved changes'}
+                <span>{isMarkdownView ? 'Markdown Source' : markdownMode === 'split' ? 'Split View' : 'Edit Mode'}</span>
+                {conflict ? 'Autosave paused: version conflict'
+                    : isSaving ? 'Saving...'
+                    : isDirty ? 'Unsaved changes'
+                    : lastSaved ? `Saved ${new Date(lastSaved).toLocaleTimeString()}` : 'All changes saved'}
             </div>
 
-            {/* Gemini Dialog Modal with Review Step */}
+            {isProcessing && <AiFormatProgress sections={formatProgress} onCancel={cancelAiRequest} />}
+            {formatReview && <AiFormatReview hunks={formatReview} onApply={handleApplyFormat} onClose={() => setFormatReview(null)} />}
+
+            {/* AI Dialog Modal with Review Step */}
             {showAiModal && (
                 <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
                     <div className="bg-white rounded-xl shadow-2xl border border-black w-full max-w-lg p-6 m-4 animate-in fade-in zoom-in duration-200 max-h-[90vh] overflow-y-auto flex flex-col">
                         <div className="flex justify-between items-center mb-4 border-b pb-2">
                             <h3 className="text-xl font-bold flex items-center gap-2">
                                 <Sparkles size={20} className="text-blue-600" />
-                                {aiStep === 'review' ? 'Review & Insert' : 'Ask Gemini'}
+                                {aiStep === 'review' ? 'Review & Insert' : 'Ask AI'}
                             </h3>
-                            <button onClick={() => setShowAiModal(false)} className="p-1 hover:bg-gray-100 rounded-full">
+                            <button onClick={closeAiModal} className="p-1 hover:bg-gray-100 rounded-full">
                                 <X size={20} />
                             </button>
                         </div>
@@ -679,11 +1173,24 @@ const Editor: React.FC<EditorProps> = ({ note, onUpdate, onBack, settings }) =>
                                     </div>
                                 </div>
 
+                                {aiStep === 'generating' && (
+                                    <div className="p-4 bg-gray-50 border rounded-lg overflow-y-auto max-h-60">
+                                        <h4 className="text-xs uppercase text-gray-400 font-bold mb-2">Generating...</h4>
+                                        {generatedPreview ? (
+                                            <div
+                                                className="prose prose-sm prose-p:my-2"
+                                                dangerouslySetInnerHTML={{ __html: generatedPreview }}
+                                            />
+                                        ) : (
+                                            <Loader2 className="animate-spin text-gray-400" size={16} />
+                                        )}
+                                    </div>
+                                )}
+
                                 <div className="pt-2 flex justify-end gap-2">
                                     <button
-                                        onClick={() => setShowAiModal(false)}
+                                        onClick={aiStep === 'generating' ? cancelAiRequest : closeAiModal}
                                         className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg"
-                                        disabled={aiStep === 'generating'}
                                     >
                                         Cancel
                                     </button>
@@ -715,7 +1222,7 @@ const Editor: React.FC<EditorProps> = ({ note, onUpdate, onBack, settings }) =>
                                     </button>
                                     <div className="flex gap-2">
                                         <button
-                                            onClick={() => setShowAiModal(false)}
+                                            onClick={closeAiModal}
                                             className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg"
                                         >
                                             Discard
@@ -845,8 +1352,63 @@ const Editor: React.FC<EditorProps> = ({ note, onUpdate, onBack, settings }) =>
                 </div>
             )}
 
+            {/* PDF Export Options */}
+            {showPdfDialog && (
+                <PdfExportDialog onExport={handlePdfExport} onClose={() => setShowPdfDialog(false)} />
+            )}
+
+            {/* Version History Panel */}
+            {showHistory && (
+                <HistoryPanel
+                    noteId={note.id}
+                    currentContent={editorHtml()}
+                    onRestore={handleRestoreRevision}
+                    onClose={() => setShowHistory(false)}
+                />
+            )}
+
+            {/* Version Conflict Dialog */}
+            {conflict && (
+                <ConflictDialog
+                    mine={{ title, content: latestContent.current }}
+                    theirs={conflict}
+                    onKeepMine={handleKeepMine}
+                    onUseTheirs={handleUseTheirs}
+                    onClose={() => { syncConflict.current = false; setConflict(null); }}
+                />
+            )}
+
+            {/* Recent Steps Menu */}
+            {stepsMenuPos && (
+                <>
+                    <div className="fixed inset-0 z-40" onClick={() => setStepsMenuPos(null)} />
+                    <div
+                        className="fixed z-50 bg-white shadow-xl border border-gray-200 rounded-lg py-1 w-56 text-sm animate-in fade-in zoom-in duration-200"
+                        style={{ top: `${stepsMenuPos.top}px`, left: `${stepsMenuPos.left}px` }}
+                    >
+                        <div className="px-3 py-1 text-xs font-bold uppercase text-gray-400">Recent Steps</div>
+                        {historySteps.undone.slice(0, MAX_LISTED_STEPS).reverse().map((step, index) => (
+                            <div key={`undone-${index}`} className="px-3 py-1.5 text-gray-300 truncate">{step.label}</div>
+                        ))}
+                        {historySteps.done.slice(0, MAX_LISTED_STEPS).map((step, index) => (
+                            <button
+                                key={`done-${index}`}
+                                onMouseDown={(e) => e.preventDefault()}
+                                onClick={() => { handleUndo(index + 1); setStepsMenuPos(null); }}
+                                className={`w-full text-left px-3 py-1.5 hover:bg-gray-100 truncate ${index === 0 ? 'font-medium text-black' : 'text-gray-700'}`}
+                            >
+                                {step.label}
+                            </button>
+                        ))}
+                        {historySteps.done.length === 0 && historySteps.undone.length === 0 && (
+                            <div className="px-3 py-1.5 text-gray-400">Nothing to undo yet.</div>
+                        )}
+                    </div>
+                </>
+            )}
+
             {/* Image Resize Popover */}
-            {selectedImage && resizePopoverPos && !isPreviewMode && !isMarkdownView && (
+            {selectedImage && resizePopoverPos && !isMarkdownView && (
                 <div
                     className="fixed z-50 bg-white shadow-xl border border-gray-200 rounded-lg p-2 flex items-center gap-2 animate-in fade-in zoom-in duration-200"
                     style={{
@@ -0,0 +1,92 @@
+import React, { useState, useEffect } from 'react';
+import { History, Loader2, RotateCcw, X } from 'lucide-react';
+import { NodeRevision } from '../types';
+import { useNodeRepository } from '../services/repositoryContext';
+import { renderHtmlDiff } from '../services/htmlDiff';
+import { sanitizeHtml } from '../services/sanitizer';
+
+interface HistoryPanelProps {
+    noteId: string;
+    currentContent: string;
+    onRestore: (revision: NodeRevision) => void;
+    onClose: () => void;
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ noteId, currentContent, onRestore, onClose }) => {
+    const repository = useNodeRepository();
+    const [revisions, setRevisions] = useState<NodeRevision[]>([]);
+    const [selected, setSelected] = useState<NodeRevision | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [errorMsg, setErrorMsg] = useState('');
+
+    useEffect(() => {
+        setLoading(true);
+        repository.listRevisions(noteId)
+            .then(data => {
+                setRevisions(data);
+                setSelected(data[0] || null);
+            })
+            .catch(error => {
+                console.error('Error loading history:', error);
+                setErrorMsg((error as Error).message);
+            })
+            .finally(() => setLoading(false));
+    }, [noteId, repository]);
+
+    const diffHtml = selected ? renderHtmlDiff(sanitizeHtml(selected.content || ''), sanitizeHtml(currentContent)) : '';
+
+    return (
+        <div className="fixed inset-0 z-50 flex justify-end bg-black/30">
+            <div className="bg-white border-l border-black w-full max-w-3xl h-full flex flex-col shadow-2xl animate-in slide-in-from-right duration-200">
+                <div className="p-4 border-b border-black flex justify-between items-center">
+                    <h3 className="text-xl font-bold flex items-center gap-2">
+                        <History size={20} />
+                        Version History
+                    </h3>
+                    <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded-full">
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className="flex flex-1 overflow-hidden">
+                    <div className="w-56 border-r border-gray-200 overflow-y-auto">
+                        {loading && <p className="p-4 text-xs text-gray-400 flex items-center gap-2"><Loader2 size={12} className="animate-spin" /> Loading...</p>}
+                        {!loading && errorMsg && <p className="p-4 text-xs text-red-600">{errorMsg}</p>}
+                        {!loading && !errorMsg && revisions.length === 0 && <p className="p-4 text-xs text-gray-400">No saved versions yet.</p>}
+                        {revisions.map(revision => (
+                            <button
+                                key={revision.id}
+                                onClick={() => setSelected(revision)}
+                                className={`w-full text-left p-3 border-b border-gray-100 text-sm ${selected?.id === revision.id ? 'bg-black text-white' : 'hover:bg-gray-50'}`}
+                            >
+                                <div className="font-medium">{new Date(revision.created_at).toLocaleString()}</div>
+                                <div className={`text-xs truncate ${selected?.id === revision.id ? 'text-gray-300' : 'text-gray-400'}`}>{revision.title || 'Untitled'}</div>
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="flex-1 flex flex-col overflow-hidden">
+                        {selected ? (
+                            <>
+                                <div className="p-3 border-b border-gray-100 flex justify-between items-center">
+                                    <span className="text-xs uppercase text-gray-400 font-bold">Changes since this version</span>
+                                    <button
+                                        onClick={() => onRestore(selected)}
+                                        className="flex items-center gap-2 bg-black text-white px-3 py-1.5 rounded text-sm hover:bg-gray-800"
+                                    >
+                                        <RotateCcw size={14} /> Restore
+                                    </button>
+                                </div>
+                                <div className="editor-content p-6 overflow-y-auto flex-1 text-gray-800" dangerouslySetInnerHTML={{ __html: diffHtml }} />
+                            </>
+                        ) : (
+                            <div className="flex-1 flex items-center justify-center text-gray-400 text-sm">Select a version to compare.</div>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,22 @@
+import React from 'react';
+import { FileQuestion } from 'lucide-react';
+
+interface NotFoundProps {
+  kind: 'note' | 'folder';
+  onBack: () => void;
+}
+
+const NotFound: React.FC<NotFoundProps> = ({ kind, onBack }) => (
+  <div className="flex-1 flex flex-col items-center justify-center text-gray-400 p-8 text-center">
+    <div className="mb-4 bg-gray-100 p-4 rounded-full">
+      <FileQuestion size={32} />
+    </div>
+    <p className="text-gray-600 font-medium">This {kind} doesn't exist anymore.</p>
+    <p className="text-sm mb-6">It may have been deleted, moved to the Trash, or the link is wrong.</p>
+    <button onClick={onBack} className="bg-black text-white px-4 py-2 rounded shadow hover:bg-gray-800 transition-colors text-sm">
+      Back to Folders
+    </button>
+  </div>
+);
+
+export default NotFound;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import NoteList from './NoteList';
+import { NodeRepositoryContext } from '../services/repositoryContext';
+import { createMemoryNodeRepository } from '../services/memoryNodeRepository';
+import { NodeRepository, newNodeRecord } from '../services/nodeRepository';
+
+afterEach(cleanup);
+
+const folder = newNodeRecord('folder-1', { title: 'Physics', type: 'folder', parent_id: null });
+const notes = [
+  newNodeRecord('note-1', { title: 'Kinematics', type: 'file', parent_id: folder.id, content: '<p>Velocity and acceleration</p>' }),
+  newNodeRecord('note-2', { title: 'Optics', type: 'file', parent_id: folder.id })
+];
+
+const renderList = (repository: NodeRepository, folderId: string, onSelectNote = vi.fn()) => render(
+  <NodeRepositoryContext.Provider value={repository}>
+    <NoteList selectedFolderId={folderId} onSelectNote={onSelectNote} onBack={vi.fn()} />
+  </NodeRepositoryContext.Provider>
+);
+
+describe('NoteList', () => {
+  it('lists the notes in the folder', async () => {
+    renderList(createMemoryNodeRepository([folder, ...notes]), folder.id);
+
+    expect(await screen.findByText('Physics')).toBeTruthy();
+    expect(screen.getByText('Kinematics')).toBeTruthy();
+    expect(screen.getByText('Velocity and acceleration')).toBeTruthy();
+    expect(screen.getByText('Optics')).toBeTruthy();
+    expect(screen.getByText('2 documents')).toBeTruthy();
+  });
+
+  it('creates a note in the folder and opens it', async () => {
+    const repository = createMemoryNodeRepository([folder]);
+    const onSelectNote = vi.fn();
+    renderList(repository, folder.id, onSelectNote);
+
+    fireEvent.click(await screen.findByText('New Doc'));
+
+    await waitFor(() => expect(onSelectNote).toHaveBeenCalledTimes(1));
+    const created = await repository.listChildren(folder.id, 'file');
+    expect(created).toHaveLength(1);
+    expect(onSelectNote).toHaveBeenCalledWith(created[0].id);
+  });
+
+  it('shows a not-found page for a trashed folder', async () => {
+    const trashed = { ...folder, trashed_at: new Date().toISOString() };
+    renderList(createMemoryNodeRepository([trashed]), folder.id);
+
+    expect(await screen.findByText("This folder doesn't exist anymore.")).toBeTruthy();
+    expect(screen.queryByText('New Doc')).toBeNull();
+  });
+});
@@ -1,6 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, Clock, File, Trash2 } from 'lucide-react';
-import { supabase } from '../src/lib/supabase';
+import { Plus, Clock, File, Trash2, MoreHorizontal, Pencil, Copy } from 'lucide-react';
+import { NodeRecord } from '../types';
+import { useNodeRepository } from '../services/repositoryContext';
+import { endNodeDrag, startNodeDrag } from './nodeDrag';
+import ContextMenu, { menuPositionFrom } from './ContextMenu';
+import NotFound from './NotFound';
 
 interface NoteListProps {
   selectedFolderId: string | null;
@@ -9,34 +13,30 @@ interface NoteListProps {
 }
 
 const NoteList: React.FC<NoteListProps> = ({ selectedFolderId, onSelectNote, onBack }) => {
-  const [notes, setNotes] = useState<any[]>([]);
+  const repository = useNodeRepository();
+  const [notes, setNotes] = useState<NodeRecord[]>([]);
   const [folderName, setFolderName] = useState('');
   const [loading, setLoading] = useState(false);
+  const [folderMissing, setFolderMissing] = useState(false);
+
+  // Context Menu & Rename State
+  const [menu, setMenu] = useState<{ note: NodeRecord; position: { top: number; left: number } } | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
 
   useEffect(() => {
     if (!selectedFolderId) return;
 
-    const fetchNotes = async () => {
-      setLoading(true);
+    const fetchNotes = async (showLoading: boolean) => {
+      if (showLoading) setLoading(true);
       try {
         // 1. Get Folder Name
-        const { data: folder } = await supabase
-          .from('nodes')
-          .select('title')
-          .eq('id', selectedFolderId)
-          .single();
+        const folder = await repository.get(selectedFolderId);
+        setFolderMissing(!folder || folder.type !== 'folder' || !!folder.trashed_at);
         setFolderName(folder?.title || 'Unknown');
 
         // 2. Get Notes in Folder
-        const { data: files, error } = await supabase
-          .from('nodes')
-          .select('*')
-          .eq('parent_id', selectedFolderId)
-          .eq('type', 'file')
-          .order('created_at', { ascending: false });
-
-        if (error) throw error;
-        setNotes(files || []);
+        setNotes(await repository.listChildren(selectedFolderId, 'file'));
       } catch (e) {
         console.error('Error loading notes:', e);
       } finally {
@@ -44,43 +44,58 @@ const NoteList: React.FC<NoteListProps> = ({ selectedFolderId, onSelectNote, onB
       }
     };
 
-    fetchNotes();
-  }, [selectedFolderId]);
+    fetchNotes(true);
+    return repository.subscribe(() => fetchNotes(false));
+  }, [selectedFolderId, repository]);
 
   const handleCreateNote = async () => {
     if (!selectedFolderId) return;
     try {
-      const { data, error } = await supabase
-        .from('nodes')
-        .insert({
-          title: 'Untitled Note',
-          content: '<p></p>',
-          type: 'file',
-          parent_id: selectedFolderId
-        })
-        .select()
-        .single();
-
-      if (error) throw error;
-      setNotes([data, ...notes]);
+      const data = await repository.create({
+        title: 'Untitled Note',
+        content: '<p></p>',
+        type: 'file',
+        parent_id: selectedFolderId
+      });
+
+      setNotes(prev => [data, ...prev.filter(n => n.id !== data.id)]);
       onSelectNote(data.id);
     } catch (e) {
       alert('Failed to create note');
     }
   };
 
-  const handleDeleteNote = async (e: React.MouseEvent, id: string) => {
-    e.stopPropagation();
-    if (!confirm('Are you sure you want to delete this note?')) return;
+  const handleRenameNote = async () => {
+    const id = renamingId;
+    const title = renameValue.trim();
+    setRenamingId(null);
+    if (!id || !title || notes.find(n => n.id === id)?.title === title) return;
 
     try {
-      const { error } = await supabase
-        .from('nodes')
-        .delete()
-        .eq('id', id);
+      const updated = await repository.update(id, { title });
+      setNotes(prev => prev.map(n => n.id === id ? updated : n));
+    } catch (e) {
+      console.error('Error renaming note:', e);
+      alert('Failed to rename note');
+    }
+  };
 
-      if (error) throw error;
-      setNotes(notes.filter(n => n.id !== id));
+  const handleDuplicateNote = async (id: string) => {
+    try {
+      const copy = await repository.duplicate(id);
+      setNotes(prev => [copy, ...prev.filter(n => n.id !== copy.id)]);
+    } catch (e) {
+      console.error('Error duplicating note:', e);
+      alert('Failed to duplicate note');
+    }
+  };
+
+  const handleDeleteNote = async (id: string) => {
+    if (!confirm('Move this note to the Trash?')) return;
+
+    try {
+      await repository.trash(id);
+      setNotes(prev => prev.filter(n => n.id !== id));
     } catch (e) {
       console.error('Error deleting note:', e);
       alert('Failed to delete note');
@@ -96,6 +111,8 @@ const NoteList: React.FC<NoteListProps> = ({ selectedFolderId, onSelectNote, onB
     </div>
   );
 
+  if (folderMissing && !loading) return <NotFound kind="folder" onBack={onBack} />;
+
   return (
     <div className="flex-1 flex flex-col h-full bg-white relative">
       <div className="p-6 border-b border-gray-100 flex justify-between items-center">
@@ -118,20 +135,41 @@ const NoteList: React.FC<NoteListProps> = ({ selectedFolderId, onSelectNote, onB
         {!loading && notes.map(note => (
           <div
             key={note.id}
-            onClick={() => onSelectNote(note.id)}
+            draggable
+            onDragStart={(e) => startNodeDrag(e, note)}
+            onDragEnd={endNodeDrag}
+            onClick={() => renamingId !== note.id && onSelectNote(note.id)}
+            onContextMenu={(e) => setMenu({ note, position: menuPositionFrom(e) })}
             className="group border border-gray-200 rounded-lg p-5 hover:border-black cursor-pointer transition-all hover:shadow-md bg-white flex flex-col justify-between h-48 relative"
           >
             <div>
               <div className="flex justify-between items-start mb-2">
-                <h3 className="font-semibold text-lg truncate group-hover:text-blue-600 transition-colors flex-1 pr-2">
-                  {note.title || 'Untitled'}
-                </h3>
+                {renamingId === note.id ? (
+                  <input
+                    autoFocus
+                    type="text"
+                    value={renameValue}
+                    onChange={(e) => setRenameValue(e.target.value)}
+                    onClick={(e) => e.stopPropagation()}
+                    onFocus={(e) => e.target.select()}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleRenameNote();
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                    onBlur={handleRenameNote}
+                    className="font-semibold text-lg flex-1 mr-2 outline-none border-b border-gray-400"
+                  />
+                ) : (
+                  <h3 className="font-semibold text-lg truncate group-hover:text-blue-600 transition-colors flex-1 pr-2">
+                    {note.title || 'Untitled'}
+                  </h3>
+                )}
                 <button
-                  onClick={(e) => handleDeleteNote(e, note.id)}
-                  className="text-gray-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-all p-1"
-                  title="Delete Note"
+                  onClick={(e) => setMenu({ note, position: menuPositionFrom(e) })}
+                  className="text-gray-300 hover:text-black opacity-0 group-hover:opacity-100 transition-all p-1"
+                  title="More"
                 >
-                  <Trash2 size={16} />
+                  <MoreHorizontal size={16} />
                 </button>
               </div>
               <div className="text-sm text-gray-400 line-clamp-3">
@@ -155,6 +193,18 @@ const NoteList: React.FC<NoteListProps> = ({ selectedFolderId, onSelectNote, onB
           </div>
         )}
       </div>
+
+      {menu && (
+        <ContextMenu
+          position={menu.position}
+          onClose={() => setMenu(null)}
+          items={[
+            { label: 'Rename', icon: <Pencil size={14} />, onSelect: () => { setRenamingId(menu.note.id); setRenameValue(menu.note.title); } },
+            { label: 'Duplicate', icon: <Copy size={14} />, onSelect: () => handleDuplicateNote(menu.note.id) },
+            { label: 'Delete', icon: <Trash2 size={14} />, onSelect: () => handleDeleteNote(menu.note.id), danger: true }
+          ]}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { Download, X } from 'lucide-react';
+import { PdfOptions, loadPdfOptions, savePdfOptions } from '../services/pdfExport';
+
+interface PdfExportDialogProps {
+    onExport: (options: PdfOptions) => void;
+    onClose: () => void;
+}
+
+const PdfExportDialog: React.FC<PdfExportDialogProps> = ({ onExport, onClose }) => {
+    const [options, setOptions] = useState<PdfOptions>(loadPdfOptions);
+
+    const update = (patch: Partial<PdfOptions>) => setOptions(prev => ({ ...prev, ...patch }));
+
+    const handleExport = () => {
+        savePdfOptions(options);
+        onExport(options);
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+            <div className="bg-white rounded-xl shadow-2xl border border-black w-full max-w-sm p-6 m-4 animate-in fade-in zoom-in duration-200">
+                <div className="flex justify-between items-center mb-4 border-b pb-2">
+                    <h3 className="text-xl font-bold">Export PDF</h3>
+                    <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded-full">
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className="space-y-4 text-sm">
+                    <div className="grid grid-cols-2 gap-3">
+                        <label className="block">
+                            <span className="block text-xs font-bold uppercase text-gray-500 mb-1">Page Size</span>
+                            <select
+                                value={options.pageSize}
+                                onChange={(e) => update({ pageSize: e.target.value as PdfOptions['pageSize'] })}
+                                className="w-full border border-gray-300 rounded p-2 outline-none focus:border-black"
+                            >
+                                <option value="a4">A4</option>
+                                <option value="letter">Letter</option>
+                            </select>
+                        </label>
+                        <label className="block">
+                            <span className="block text-xs font-bold uppercase text-gray-500 mb-1">Margins (mm)</span>
+                            <input
+                                type="number"
+                                min={0}
+                                max={50}
+                                value={options.margin}
+                                onChange={(e) => update({ margin: Math.min(50, Math.max(0, +e.target.value)) })}
+                                className="w-full border border-gray-300 rounded p-2 outline-none focus:border-black"
+                            />
+                        </label>
+                    </div>
+
+                    <label className="flex items-center gap-2">
+                        <input type="checkbox" checked={options.titlePage} onChange={(e) => update({ titlePage: e.target.checked })} />
+                        Title page
+                    </label>
+                    <label className="flex items-center gap-2">
+                        <input type="checkbox" checked={options.tableOfContents} onChange={(e) => update({ tableOfContents: e.target.checked })} />
+                        Table of contents (from H1/H2 headings)
+                    </label>
+                    <label className="flex items-center gap-2">
+                        <input type="checkbox" checked={options.headerFooter} onChange={(e) => update({ headerFooter: e.target.checked })} />
+                        Header and footer with page numbers
+                    </label>
+
+                    <p className="text-xs text-gray-400">
+                        Choose "Save as PDF" in the print dialog. Text stays selectable and equations are typeset.
+                    </p>
+                </div>
+
+                <div className="pt-4 flex justify-end gap-2">
+                    <button onClick={onClose} className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg border border-gray-200">
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleExport}
+                        className="bg-black text-white px-6 py-2 rounded-lg font-medium hover:bg-gray-800 flex items-center gap-2"
+                    >
+                        <Download size={16} /> Export
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PdfExportDialog;
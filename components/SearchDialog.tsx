@@ -0,0 +1,106 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { FileText, Search, X } from 'lucide-react';
+import { NodeRecord } from '../types';
+import { useNodeRepository } from '../services/repositoryContext';
+import { buildSearchIndex, searchNotes } from '../services/searchService';
+
+interface SearchDialogProps {
+    onSelect: (note: NodeRecord, query: string) => void;
+    onClose: () => void;
+}
+
+const SearchDialog: React.FC<SearchDialogProps> = ({ onSelect, onClose }) => {
+    const repository = useNodeRepository();
+    const [nodes, setNodes] = useState<NodeRecord[]>([]);
+    const [query, setQuery] = useState('');
+    const [activeIndex, setActiveIndex] = useState(0);
+    const listRef = useRef<HTMLDivElement>(null);
+
+    // Load once per open; searching in memory keeps keystrokes instant
+    useEffect(() => {
+        repository.list().then(setNodes).catch(error => console.error('Error loading notes for search:', error));
+    }, [repository]);
+
+    const searchIndex = useMemo(() => buildSearchIndex(nodes), [nodes]);
+    const results = useMemo(() => searchNotes(searchIndex, query), [searchIndex, query]);
+
+    useEffect(() => setActiveIndex(0), [query]);
+
+    useEffect(() => {
+        listRef.current?.children[activeIndex]?.scrollIntoView({ block: 'nearest' });
+    }, [activeIndex]);
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'ArrowDown') {
+            e.preventDefault();
+            setActiveIndex(i => Math.min(i + 1, results.length - 1));
+        } else if (e.key === 'ArrowUp') {
+            e.preventDefault();
+            setActiveIndex(i => Math.max(i - 1, 0));
+        } else if (e.key === 'Enter' && results[activeIndex]) {
+            onSelect(results[activeIndex].note, query.trim());
+        } else if (e.key === 'Escape') {
+            onClose();
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-start justify-center bg-black/50 backdrop-blur-sm pt-[10vh]" onClick={onClose}>
+            <div
+                className="bg-white rounded-xl shadow-2xl border border-black w-full max-w-2xl m-4 animate-in fade-in zoom-in duration-200 flex flex-col max-h-[70vh]"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center gap-3 p-4 border-b">
+                    <Search size={20} className="text-gray-400" />
+                    <input
+                        autoFocus
+                        type="text"
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                        onKeyDown={handleKeyDown}
+                        className="flex-1 outline-none text-lg"
+                        placeholder="Search all notes..."
+                    />
+                    <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded-full">
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div ref={listRef} className="overflow-y-auto">
+                    {results.map((result, index) => (
+                        <button
+                            key={result.note.id}
+                            onClick={() => onSelect(result.note, query.trim())}
+                            onMouseEnter={() => setActiveIndex(index)}
+                            className={`w-full text-left px-4 py-3 border-b border-gray-100 ${index === activeIndex ? 'bg-gray-100' : ''}`}
+                        >
+                            <div className="flex items-center gap-2 font-medium">
+                                <FileText size={14} className="flex-shrink-0" />
+                                <span className="truncate">{result.note.title || 'Untitled'}</span>
+                            </div>
+                            {result.path.length > 0 && (
+                                <div className="text-xs text-gray-400 mt-0.5 truncate">{result.path.join(' / ')}</div>
+                            )}
+                            {result.snippet && (
+                                <div className="text-sm text-gray-600 mt-1 line-clamp-2">
+                                    {result.snippet.before}
+                                    <mark className="bg-yellow-200 rounded px-0.5">{result.snippet.match}</mark>
+                                    {result.snippet.after}
+                                </div>
+                            )}
+                        </button>
+                    ))}
+
+                    {query.trim() && results.length === 0 && (
+                        <p className="p-6 text-center text-sm text-gray-400">No notes match "{query.trim()}".</p>
+                    )}
+                    {!query.trim() && (
+                        <p className="p-6 text-center text-sm text-gray-400">Search titles and content of every note.</p>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SearchDialog;
@@ -0,0 +1,41 @@
+import React, { useState, useEffect } from 'react';
+import { Cloud, CloudOff, RefreshCw, AlertTriangle } from 'lucide-react';
+import { SyncState } from '../types';
+import { subscribeSyncStatus, syncNow } from '../services/syncService';
+
+const LABELS: Record<SyncState, string> = {
+  idle: 'Synced',
+  syncing: 'Syncing...',
+  offline: 'Offline',
+  error: 'Sync failed'
+};
+
+const SyncIndicator: React.FC = () => {
+  const [state, setState] = useState<SyncState>('idle');
+  const [pending, setPending] = useState(0);
+
+  useEffect(() => subscribeSyncStatus((nextState, nextPending) => {
+    setState(nextState);
+    setPending(nextPending);
+  }), []);
+
+  const icon = {
+    idle: <Cloud size={14} />,
+    syncing: <RefreshCw size={14} className="animate-spin" />,
+    offline: <CloudOff size={14} />,
+    error: <AlertTriangle size={14} className="text-red-500" />
+  }[state];
+
+  return (
+    <button
+      onClick={() => syncNow()}
+      className="flex items-center gap-1 text-xs text-gray-400 hover:text-black transition-colors"
+      title={pending ? `${pending} change(s) waiting to sync` : 'All changes synced'}
+    >
+      {icon}
+      <span>{LABELS[state]}{pending > 0 && state !== 'syncing' ? ` • ${pending} pending` : ''}</span>
+    </button>
+  );
+};
+
+export default SyncIndicator;
@@ -0,0 +1,52 @@
+import React from 'react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import TrashView from './TrashView';
+import { NodeRepositoryContext } from '../services/repositoryContext';
+import { createMemoryNodeRepository } from '../services/memoryNodeRepository';
+import { NodeRepository, newNodeRecord } from '../services/nodeRepository';
+
+afterEach(cleanup);
+
+const folder = newNodeRecord('folder-1', { title: 'Physics', type: 'folder', parent_id: null });
+const trashedNote = {
+  ...newNodeRecord('note-1', { title: 'Old draft', type: 'file', parent_id: folder.id }),
+  trashed_at: new Date().toISOString()
+};
+
+const renderTrash = (repository: NodeRepository) => render(
+  <NodeRepositoryContext.Provider value={repository}>
+    <TrashView retentionDays={30} onClose={vi.fn()} />
+  </NodeRepositoryContext.Provider>
+);
+
+describe('TrashView', () => {
+  it('shows trashed items with the days left', async () => {
+    renderTrash(createMemoryNodeRepository([folder, trashedNote]));
+
+    expect(await screen.findByText('Old draft')).toBeTruthy();
+    expect(screen.getByText('30 days left')).toBeTruthy();
+    expect(screen.queryByText('Physics')).toBeNull();
+  });
+
+  it('restores an item into its folder', async () => {
+    const repository = createMemoryNodeRepository([folder, trashedNote]);
+    renderTrash(repository);
+
+    fireEvent.click(await screen.findByTitle('Restore'));
+
+    expect(await screen.findByText('Trash is empty.')).toBeTruthy();
+    expect((await repository.listChildren(folder.id)).map(node => node.title)).toEqual(['Old draft']);
+  });
+
+  it('deletes an item forever after confirmation', async () => {
+    const repository = createMemoryNodeRepository([folder, trashedNote]);
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+    renderTrash(repository);
+
+    fireEvent.click(await screen.findByTitle('Delete Forever'));
+
+    await waitFor(async () => expect(await repository.get(trashedNote.id)).toBeUndefined());
+    expect(await screen.findByText('Trash is empty.')).toBeTruthy();
+  });
+});
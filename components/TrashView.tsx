@@ -0,0 +1,109 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowLeft, FileText, Folder, RotateCcw, Trash2 } from 'lucide-react';
+import { NodeRecord } from '../types';
+import { useNodeRepository } from '../services/repositoryContext';
+
+interface TrashViewProps {
+  retentionDays: number;
+  onClose: () => void;
+}
+
+const TrashView: React.FC<TrashViewProps> = ({ retentionDays, onClose }) => {
+  const repository = useNodeRepository();
+  const [items, setItems] = useState<NodeRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchTrash = async () => {
+      try {
+        setItems(await repository.listTrash());
+      } catch (error) {
+        console.error('Error loading trash:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchTrash();
+    return repository.subscribe(fetchTrash);
+  }, [repository]);
+
+  const handleRestore = async (node: NodeRecord) => {
+    try {
+      await repository.restore(node.id);
+    } catch (error) {
+      console.error('Error restoring node:', error);
+      alert('Could not restore item');
+    }
+  };
+
+  const handlePurge = async (node: NodeRecord) => {
+    if (!confirm(`Permanently delete "${node.title}"? This cannot be undone.`)) return;
+    try {
+      await repository.remove(node.id);
+    } catch (error) {
+      console.error('Error deleting node:', error);
+      alert('Could not delete item');
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    if (!confirm(`Permanently delete all ${items.length} items in the Trash? This cannot be undone.`)) return;
+    try {
+      for (const node of items) await repository.remove(node.id);
+    } catch (error) {
+      console.error('Error emptying trash:', error);
+      alert('Could not empty trash');
+    }
+  };
+
+  const daysLeft = (node: NodeRecord) => {
+    const elapsed = (Date.now() - new Date(node.trashed_at!).getTime()) / (24 * 60 * 60 * 1000);
+    return Math.max(0, Math.ceil(retentionDays - elapsed));
+  };
+
+  return (
+    <div className="select-none">
+      <div className="flex items-center justify-between p-2 mb-2">
+        <button onClick={onClose} className="flex items-center gap-2 text-sm font-medium text-gray-800 hover:text-black">
+          <ArrowLeft size={14} /> Trash
+        </button>
+        {items.length > 0 && (
+          <button onClick={handleEmptyTrash} className="text-xs text-red-500 hover:text-red-700">
+            Empty
+          </button>
+        )}
+      </div>
+
+      <p className="px-2 mb-2 text-xs text-gray-400">Items are deleted forever after {retentionDays} days.</p>
+
+      {loading && <div className="p-4 text-center text-xs text-gray-400">Loading trash...</div>}
+
+      {!loading && items.length === 0 && (
+        <div className="text-center mt-10 text-gray-400 text-sm p-4">Trash is empty.</div>
+      )}
+
+      {items.map(node => (
+        <div key={node.id} className="flex items-center justify-between group p-2 rounded text-sm hover:bg-gray-200 text-gray-600">
+          <div className="flex items-center gap-2 overflow-hidden">
+            {node.type === 'folder' ? <Folder size={14} className="flex-shrink-0" /> : <FileText size={14} className="flex-shrink-0" />}
+            <div className="overflow-hidden">
+              <div className="truncate">{node.title || 'Untitled'}</div>
+              <div className="text-[10px] text-gray-400">{daysLeft(node)} days left</div>
+            </div>
+          </div>
+          <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+            <button onClick={() => handleRestore(node)} className="p-1 text-gray-400 hover:text-black" title="Restore">
+              <RotateCcw size={12} />
+            </button>
+            <button onClick={() => handlePurge(node)} className="p-1 text-gray-400 hover:text-red-500" title="Delete Forever">
+              <Trash2 size={12} />
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TrashView;
@@ -0,0 +1,21 @@
+import React from 'react';
+import { NodeType } from '../types';
+
+// Drag-and-drop of tree nodes between NoteList and the Sidebar tree.
+// dataTransfer contents are unreadable during dragover, so the dragged node
+// is also kept here for drop-target validation.
+export const NODE_DRAG_TYPE = 'application/x-monotext-node';
+
+let draggedNode: { id: string; type: NodeType } | null = null;
+
+export const startNodeDrag = (e: React.DragEvent, node: { id: string; type: NodeType }) => {
+  draggedNode = { id: node.id, type: node.type };
+  e.dataTransfer.setData(NODE_DRAG_TYPE, node.id);
+  e.dataTransfer.effectAllowed = 'move';
+};
+
+export const endNodeDrag = () => {
+  draggedNode = null;
+};
+
+export const getDraggedNode = () => draggedNode;
@@ -0,0 +1,161 @@
+import { GoogleGenAI } from '@google/genai';
+import { createClient } from '@supabase/supabase-js';
+
+// Server side of the AI features: holds the Gemini key, so it never reaches
+// the browser. Every request must carry the caller's Supabase access token
+// and is checked against a per-minute rate limit and a daily quota before it
+// is forwarded. Requests that aren't served are refunded to the quota. Written against the web Request/Response API so it runs both
+// as a serverless function (api/ai.ts) and inside the Vite dev server.
+// Streamed requests get the response as plain text, chunk by chunk; closing
+// the connection aborts the upstream request.
+
+export interface AiProxyConfig {
+  geminiApiKey: string;
+  supabaseUrl: string;
+  supabaseAnonKey: string;
+  // Burst limit, enforced per server instance
+  requestsPerMinute: number;
+  // Durable limit, counted in the `ai_usage` table
+  requestsPerDay: number;
+  // Gemini models clients may ask for
+  models: string[];
+}
+
+export interface AiProxyRequest {
+  model: string;
+  prompt: string;
+  json?: boolean;
+  stream?: boolean;
+}
+
+const MAX_PROMPT_CHARS = 200_000;
+const DEFAULT_MODELS = ['gemini-2.5-flash', 'gemini-2.5-flash-lite'];
+const MINUTE_MS = 60 * 1000;
+
+const errorResponse = (status: number, error: string, headers: Record<string, string> = {}) =>
+  Response.json({ error }, { status, headers });
+
+export const aiProxyConfigFromEnv = (env: Record<string, string | undefined>): AiProxyConfig => {
+  const models = (env.AI_MODELS || '').split(',').map(model => model.trim()).filter(Boolean);
+  return {
+    geminiApiKey: env.GEMINI_API_KEY || '',
+    supabaseUrl: env.SUPABASE_URL || env.VITE_SUPABASE_URL || '',
+    supabaseAnonKey: env.SUPABASE_ANON_KEY || env.VITE_SUPABASE_ANON_KEY || '',
+    requestsPerMinute: Number(env.AI_REQUESTS_PER_MINUTE) || 10,
+    requestsPerDay: Number(env.AI_REQUESTS_PER_DAY) || 200,
+    models: models.length ? models : DEFAULT_MODELS
+  };
+};
+
+export const createAiProxy = (config: AiProxyConfig) => {
+  const ai = new GoogleGenAI({ apiKey: config.geminiApiKey });
+  const models = new Set(config.models);
+  // Request times in the last minute, by user id
+  const recent = new Map<string, number[]>();
+  let lastPruned = 0;
+
+  // Drops users with no requests in the last minute, at most once a minute
+  const pruneRecent = (now: number) => {
+    if (now - lastPruned < MINUTE_MS) return;
+    lastPruned = now;
+    for (const [userId, times] of recent) {
+      if (now - times[times.length - 1] >= MINUTE_MS) recent.delete(userId);
+    }
+  };
+
+  const withinRateLimit = (userId: string, now: number) => {
+    pruneRecent(now);
+    const times = (recent.get(userId) || []).filter(time => now - time < MINUTE_MS);
+    if (times.length >= config.requestsPerMinute) {
+      recent.set(userId, times);
+      return Math.ceil((times[0] + MINUTE_MS - now) / 1000);
+    }
+    recent.set(userId, [...times, now]);
+    return 0;
+  };
+
+  return async (request: Request): Promise<Response> => {
+    if (request.method !== 'POST') return errorResponse(405, 'Method not allowed');
+    if (!config.geminiApiKey) return errorResponse(500, 'The AI service is not configured');
+
+    const token = request.headers.get('authorization')?.replace(/^Bearer /, '');
+    if (!token) return errorResponse(401, 'Sign in to use AI features');
+
+    // Acting as the user keeps the quota function scoped to them
+    const supabase = createClient(config.supabaseUrl, config.supabaseAnonKey, {
+      global: { headers: { Authorization: `Bearer ${token}` } },
+      auth: { persistSession: false }
+    });
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) return errorResponse(401, 'Sign in to use AI features');
+
+    let body: AiProxyRequest;
+    try {
+      body = await request.json();
+    } catch {
+      return errorResponse(400, 'Invalid request body');
+    }
+    if (typeof body.prompt !== 'string' || !body.prompt) return errorResponse(400, 'Missing prompt');
+    if (body.prompt.length > MAX_PROMPT_CHARS) return errorResponse(413, 'Prompt is too long');
+    if (!models.has(body.model)) return errorResponse(400, `Unsupported model "${body.model}"`);
+
+    const retryAfter = withinRateLimit(user.id, Date.now());
+    if (retryAfter) {
+      return errorResponse(429, 'Too many AI requests, try again shortly', { 'Retry-After': String(retryAfter) });
+    }
+
+    const { data: used, error: quotaError } = await supabase.rpc('consume_ai_quota');
+    if (quotaError) {
+      console.error('Error recording AI usage:', quotaError);
+      return errorResponse(500, 'Could not check AI quota');
+    }
+
+    const refund = async () => {
+      const { error } = await supabase.rpc('refund_ai_quota');
+      if (error) console.error('Error refunding AI usage:', error);
+    };
+    if (used > config.requestsPerDay) {
+      await refund();
+      return errorResponse(429, 'Daily AI quota reached');
+    }
+
+    const params = {
+      model: body.model,
+      contents: body.prompt,
+      config: {
+        abortSignal: request.signal,
+        ...(body.json ? { responseMimeType: 'application/json' } : {})
+      }
+    };
+
+    try {
+      if (body.stream) {
+        const chunks = await ai.models.generateContentStream(params);
+        const encoder = new TextEncoder();
+        return new Response(new ReadableStream<Uint8Array>({
+          async start(controller) {
+            try {
+              for await (const chunk of chunks) {
+                if (chunk.text) controller.enqueue(encoder.encode(chunk.text));
+              }
+              controller.close();
+            } catch (error) {
+              if (!request.signal.aborted) {
+                console.error('Error streaming AI response:', error);
+                await refund();
+              }
+              controller.error(error);
+            }
+          }
+        }), { headers: { 'Content-Type': 'text/plain; charset=utf-8', 'Cache-Control': 'no-cache' } });
+      }
+
+      const response = await ai.models.generateContent(params);
+      return Response.json({ text: response.text || '' });
+    } catch (error) {
+      console.error('Error forwarding AI request:', error);
+      await refund();
+      return errorResponse(502, 'The AI service failed to respond');
+    }
+  };
+};
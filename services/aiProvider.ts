@@ -0,0 +1,246 @@
+import { AiProviderKind, EditorSettings } from '../types';
+import { AiContext, chunkHtml, isAbortError, mapWithConcurrency, trimContext, withRetries } from './aiRequests';
+import { sanitizeHtml } from './sanitizer';
+import { createGeminiCompletion } from './geminiService';
+import { createOpenAiCompletion } from './openAiProvider';
+import { createMockAiProvider } from './mockAiProvider';
+
+// The AI features the editor uses, independent of the model behind them.
+// Gemini and OpenAI-compatible servers share the prompts below and only
+// differ in how a prompt is completed; the mock answers deterministically.
+
+export type AiLength = 'short' | 'medium' | 'long';
+
+export interface GenerateOptions {
+  // Aborting rejects with an AbortError
+  signal?: AbortSignal;
+  // Called with the sanitized output so far while the response streams in
+  onPartial?: (html: string) => void;
+}
+
+export interface FormatSection {
+  title: string;
+  status: 'pending' | 'formatting' | 'done';
+  // Characters of formatted output received so far
+  received: number;
+}
+
+export interface FormatOptions {
+  signal?: AbortSignal;
+  // Called whenever a section starts, streams more output or finishes
+  onProgress?: (sections: FormatSection[]) => void;
+}
+
+export interface AiProvider {
+  // Restructures note HTML and fixes math formatting without changing the
+  // text. Long notes are formatted in chunks, split at H1/H2 headings first.
+  formatText(html: string, options?: FormatOptions): Promise<string>;
+  // HTML to insert at the cursor, answering `query` in the style of the text around it
+  generateContent(query: string, context: AiContext, length: AiLength, options?: GenerateOptions): Promise<string>;
+  // Text with its math converted to $...$ / $$...$$ LaTeX
+  generateLatex(text: string): Promise<string>;
+  suggestTopics(existingTopics: string[]): Promise<string[]>;
+}
+
+export interface CompletionOptions {
+  // Asks for a JSON-only response
+  json?: boolean;
+  signal?: AbortSignal;
+  // Streams the response, passing each new piece of text as it arrives
+  onDelta?: (delta: string) => void;
+}
+
+// Completes one prompt, resolving to the whole response
+export type TextCompletion = (prompt: string, options?: CompletionOptions) => Promise<string>;
+
+export const DEFAULT_AI_MODELS: Record<AiProviderKind, string> = {
+  gemini: 'gemini-2.5-flash',
+  openai: 'gpt-4o-mini',
+  mock: 'mock'
+};
+
+export const DEFAULT_AI_BASE_URL = 'http://localhost:11434/v1';
+
+// Input per AI Format request; the output is about as long again
+const FORMAT_CHUNK_TOKENS = 2000;
+const FORMAT_CONCURRENCY = 3;
+const FORMAT_RETRIES = 2;
+const RETRY_DELAY_MS = 1000;
+// Note text sent along with a generate request
+const CONTEXT_TOKENS = 1000;
+
+const formatPrompt = (htmlContent: string) => `
+    You are an expert technical editor.
+    Your task is to FORMAT the provided HTML content to be visually structured and mathematically correct, while strictly PRESERVING the original text content and language.
+
+    ### CRITICAL CONSTRAINTS (DO NOT VIOLATE)
+    1. **PRESERVE LANGUAGE**: If the input is in Bengali, Hindi, English, or any other language, **KEEP IT IN THAT LANGUAGE**. DO NOT TRANSLATE.
+    2. **PRESERVE CONTENT**: Do NOT rewrite sentences, do NOT summarize, do NOT change the meaning. Keep the tone exactly as is.
+    3. **ONLY FIX**:
+       - HTML Structure (headings, lists, paragraphs).
+       - Mathematical Formatting (LaTeX).
+       - Minor typos and spelling errors.
+
+    ### MATHEMATICAL FORMATTING RULES (STRICT)
+    1. **Inline Math**: Enclose ALL variables, constants, and short expressions in single dollar signs ($...$).
+       - Example: "charge q" -> "charge $q$"
+       - Example: "q = ne" -> "$q = ne$"
+       - Example: "x" -> "$x$"
+       - Example: "1/3" -> "$\\frac{1}{3}$"
+    2. **Block Math**: Enclose complex equations in double dollar signs ($$...$$).
+    3. **Variables**: Even single letters representing variables (e.g., n, x, y, e) MUST be formatted as math ($n$).
+
+    ### HTML FORMATTING
+    1. Use <h1>, <h2>, <p>, <ul>, <li>, <strong>, <em> to structure the document.
+    2. **Images**: PRESERVE all <img> tags exactly as they appear.
+    3. **Output**: Return ONLY the raw HTML body content. Do not output markdown blocks.
+
+    ### INPUT CONTENT:
+    ${htmlContent}
+  `;
+
+const topicsPrompt = (existingTopics: string[]) => `
+      Based on this list of existing topics: ${existingTopics.join(", ")},
+      suggest 3 new, relevant, high-level topics for organizing a personal knowledge base.
+      Return them as a JSON array of strings.
+    `;
+
+const contentPrompt = (query: string, context: AiContext, length: AiLength) => {
+  const { before, after } = trimContext(context, CONTEXT_TOKENS);
+  const lengthPrompt = {
+    short: "Keep it very brief, 1-2 sentences maximum.",
+    medium: "Write a standard paragraph, about 50-80 words.",
+    long: "Write a detailed explanation, 2-3 paragraphs."
+  }[length];
+
+  return `
+        You are a technical assistant helping to write a document.
+
+        Context: The user is writing a document. The text just before the cursor is:
+        "${before}"
+
+        The text just after the cursor is:
+        "${after}"
+
+        Task: The user wants to insert content at the cursor clarifying/explaining: "${query}".
+
+        ### REQUIREMENTS:
+        1. **Language**: Respond in the SAME LANGUAGE as the Context provided above.
+        2. Match the tone and style of the provided context.
+        3. ${lengthPrompt}
+        4. Return ONLY valid HTML tags (like <p>, <ul>, <strong>, <em>).
+        5. Do NOT wrap in markdown code blocks (no \`\`\`html).
+
+        ### STRICT MATHEMATICAL FORMATTING:
+        - If the content involves math, physics formulas, or variables, YOU MUST USE LaTeX.
+        - **Inline**: Use $...$ (e.g., $F=ma$, $x$, $y$).
+        - **Block**: Use $$...$$ for main equations.
+    `;
+};
+
+const latexPrompt = (text: string) => `
+    You are a mathematical typesetting assistant.
+    Convert the selected text into proper LaTeX syntax.
+
+    Rules:
+    1. **Inline Math**: If the input is a short expression (like "1/3", "x^2", "alpha"), you MUST wrap it in single dollar signs: $...$ (e.g., $\\frac{1}{3}$).
+    2. **Block Math**: If it's a complex equation, use double dollar signs: $$...$$.
+    3. **Mixed Text**: If the input contains text AND math (e.g., "The fraction is 1/3" or "১/৩ অংশ"), preserve the text and only format the math parts into LaTeX (e.g., "The fraction is $\\frac{1}{3}$").
+    4. **Language**: Preserve any non-English text (e.g., Bengali, Hindi) exactly as is.
+    5. **Idempotency**: If the text is already formatted as LaTeX (e.g. enclosed in $...$), ensure it is correct but do not add extra dollar signs.
+    6. Return ONLY the result string. No markdown code blocks.
+
+    Input: "${text}"
+  `;
+
+// Models wrap output in code fences despite instructions; HTML is untrusted
+// and keeps only what the editor's schema allows
+const cleanHtml = (text: string) =>
+  sanitizeHtml(text.replace(/^\s*```html\s*/, '').replace(/```\s*$/, '').trim());
+
+// Builds the editor's AI features on top of a plain prompt completion
+export const createPromptProvider = (complete: TextCompletion): AiProvider => ({
+  async formatText(html, options) {
+    const chunks = chunkHtml(html, FORMAT_CHUNK_TOKENS);
+    const progress: FormatSection[] = chunks.map(chunk => ({ title: chunk.title, status: 'pending', received: 0 }));
+    const report = () => options?.onProgress?.(progress.map(section => ({ ...section })));
+
+    // One failed chunk stops the rest, as does the caller cancelling
+    const controller = new AbortController();
+    const cancel = () => controller.abort();
+    options?.signal?.addEventListener('abort', cancel);
+    if (options?.signal?.aborted) cancel();
+
+    try {
+      const formatted = await mapWithConcurrency(chunks, FORMAT_CONCURRENCY, (chunk, index) =>
+        withRetries(async () => {
+          progress[index] = { ...progress[index], status: 'formatting', received: 0 };
+          report();
+          const result = await complete(formatPrompt(chunk.html), {
+            signal: controller.signal,
+            onDelta: delta => {
+              progress[index].received += delta.length;
+              report();
+            }
+          });
+          progress[index].status = 'done';
+          report();
+          return cleanHtml(result);
+        }, { retries: FORMAT_RETRIES, delayMs: RETRY_DELAY_MS, signal: controller.signal })
+      );
+      return formatted.join('');
+    } catch (error) {
+      cancel();
+      if (!isAbortError(error)) console.error("Error formatting text with AI:", error);
+      throw error;
+    } finally {
+      options?.signal?.removeEventListener('abort', cancel);
+    }
+  },
+
+  async generateContent(query, context, length, options) {
+    try {
+      let streamed = '';
+      const result = await complete(contentPrompt(query, context, length), {
+        signal: options?.signal,
+        onDelta: options?.onPartial && (delta => {
+          streamed += delta;
+          options.onPartial!(cleanHtml(streamed));
+        })
+      });
+      return cleanHtml(result);
+    } catch (error) {
+      if (!isAbortError(error)) console.error("Error generating content:", error);
+      throw error;
+    }
+  },
+
+  async generateLatex(text) {
+    try {
+      const result = await complete(latexPrompt(text));
+      return result.replace(/^\s*```(latex|tex)?/i, '').replace(/```\s*$/, '').trim();
+    } catch (error) {
+      console.error("Error generating LaTeX:", error);
+      throw error;
+    }
+  },
+
+  async suggestTopics(existingTopics) {
+    try {
+      const topics = JSON.parse(await complete(topicsPrompt(existingTopics), { json: true }) || '[]');
+      return Array.isArray(topics) ? topics.map(String) : [];
+    } catch (error) {
+      console.error(error);
+      return [];
+    }
+  }
+});
+
+export const createAiProvider = (settings: Pick<EditorSettings, 'aiProvider' | 'aiModel' | 'aiBaseUrl' | 'aiApiKey'>): AiProvider => {
+  const model = settings.aiModel || DEFAULT_AI_MODELS[settings.aiProvider];
+  switch (settings.aiProvider) {
+    case 'openai': return createPromptProvider(createOpenAiCompletion(settings.aiBaseUrl || DEFAULT_AI_BASE_URL, model, settings.aiApiKey));
+    case 'mock': return createMockAiProvider();
+    default: return createPromptProvider(createGeminiCompletion(model));
+  }
+};
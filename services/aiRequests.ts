@@ -0,0 +1,157 @@
+import { Doc, Inline, Pos, mathSource, splitContent, splitSections } from './documentModel';
+import { splitBlocks } from './htmlDiff';
+
+// Plumbing for AI jobs larger than one prompt: a rough token estimate to size
+// requests by, splitting notes into chunks that fit a budget, running the
+// chunks a few at a time with retries, and picking the text around the cursor
+// as context for generated content.
+
+// Thrown by completions for failed responses; `status` is the HTTP status and
+// `retryAfterMs` the server's Retry-After, when given
+export class AiRequestError extends Error {
+  constructor(message: string, readonly status?: number, readonly retryAfterMs?: number) {
+    super(message);
+    this.name = 'AiRequestError';
+  }
+}
+
+// Close enough for budgeting: about four characters per token for English,
+// and an overestimate for most other scripts
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+export interface Chunk {
+  title: string;
+  html: string;
+}
+
+// Splits note HTML into chunks of at most `maxTokens`. Chunks break at H1/H2
+// headings where possible and between blocks otherwise; consecutive small
+// sections share a chunk. A single block over budget becomes its own chunk.
+export const chunkHtml = (html: string, maxTokens: number): Chunk[] => {
+  const pieces: Chunk[] = [];
+  for (const section of splitSections(html)) {
+    if (estimateTokens(section.html) <= maxTokens) {
+      pieces.push(section);
+      continue;
+    }
+    let part = 1;
+    for (const block of splitBlocks(section.html)) {
+      const last = pieces[pieces.length - 1];
+      if (part > 1 && estimateTokens(last.html + block) <= maxTokens) {
+        last.html += block;
+      } else {
+        pieces.push({ title: part === 1 ? section.title : `${section.title} (part ${part})`, html: block });
+        part++;
+      }
+    }
+  }
+
+  // Pack neighbouring pieces back together up to the budget
+  const chunks: Chunk[] = [];
+  for (const piece of pieces) {
+    const last = chunks[chunks.length - 1];
+    if (last && estimateTokens(last.html + piece.html) <= maxTokens) {
+      last.title += `, ${piece.title}`;
+      last.html += piece.html;
+    } else {
+      chunks.push({ ...piece });
+    }
+  }
+  return chunks;
+};
+
+const abortError = () => new DOMException('Aborted', 'AbortError');
+
+export const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(abortError());
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(abortError());
+  }, { once: true });
+});
+
+// Rate limits and server errors are worth another try; bad requests are not
+const isRetryable = (error: unknown) =>
+  !isAbortError(error) && !(error instanceof AiRequestError && error.status && error.status !== 429 && error.status < 500);
+
+export interface RetryOptions {
+  retries: number;
+  // Delay before the first retry, doubled for each one after
+  delayMs: number;
+  signal?: AbortSignal;
+}
+
+export const withRetries = async <T>(run: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await run(attempt);
+    } catch (error) {
+      if (attempt >= options.retries || !isRetryable(error)) throw error;
+      console.warn(`AI request failed, retrying (${attempt + 1}/${options.retries}):`, error);
+      const retryAfter = error instanceof AiRequestError ? error.retryAfterMs || 0 : 0;
+      await sleep(Math.max(options.delayMs * 2 ** attempt, retryAfter), options.signal);
+    }
+  }
+};
+
+// Maps `items` through `run` with at most `limit` calls in flight, keeping
+// the results in order. After the first failure no new calls start.
+export const mapWithConcurrency = async <T, R>(items: T[], limit: number, run: (item: T, index: number) => Promise<R>): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await run(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
+
+// The note's text on either side of the cursor
+export interface AiContext {
+  before: string;
+  after: string;
+}
+
+const inlineText = (content: Inline[]) =>
+  content.map(inline => inline.type === 'text' ? inline.text : inline.type === 'math' ? mathSource(inline) : '').join('');
+
+// Splits the document's text at `from`..`to`; without a position all of it counts as before
+export const contextAt = (doc: Doc, from?: Pos, to: Pos | undefined = from): AiContext => {
+  if (!from || !to) return { before: doc.blocks.map(block => inlineText(block.content)).join('\n'), after: '' };
+  const before = doc.blocks.slice(0, from.block).map(block => inlineText(block.content));
+  const after = doc.blocks.slice(to.block + 1).map(block => inlineText(block.content));
+  before.push(inlineText(splitContent(doc.blocks[from.block]?.content || [], from.offset)[0]));
+  after.unshift(inlineText(splitContent(doc.blocks[to.block]?.content || [], to.offset)[1]));
+  return { before: before.join('\n'), after: after.join('\n') };
+};
+
+// Trims context to `maxTokens`, keeping the text nearest the cursor: two
+// thirds of the budget before it, the rest after, and any unused share goes
+// to the other side. Cuts fall on whitespace.
+export const trimContext = (context: AiContext, maxTokens: number): AiContext => {
+  const budget = maxTokens * 4;
+  const afterShare = Math.min(context.after.length, Math.floor(budget / 3));
+  const beforeShare = Math.min(context.before.length, budget - afterShare);
+  const afterChars = Math.min(context.after.length, budget - beforeShare);
+
+  const before = context.before.slice(context.before.length - beforeShare);
+  const after = context.after.slice(0, afterChars);
+  return {
+    before: beforeShare < context.before.length ? before.replace(/^\S*\s/, '') : before,
+    after: afterChars < context.after.length ? after.replace(/\s\S*$/, '') : after
+  };
+};
@@ -0,0 +1,32 @@
+import { useEffect, useRef } from 'react';
+
+// Commands shown in the Ctrl/Cmd+K palette. Components register a provider
+// while mounted, so the palette always offers what is currently on screen.
+
+export interface Command {
+  id: string;
+  title: string;
+  group: string;
+  shortcut?: string;
+  run: () => void;
+}
+
+type CommandProvider = () => Command[];
+
+const providers = new Set<CommandProvider>();
+
+export const registerCommands = (provider: CommandProvider) => {
+  providers.add(provider);
+  return () => { providers.delete(provider); };
+};
+
+export const getCommands = (): Command[] =>
+  Array.from(providers).flatMap(provider => provider());
+
+// Registers for the lifetime of the component; `run` always sees the latest render
+export const useCommands = (commands: Command[]) => {
+  const latest = useRef(commands);
+  latest.current = commands;
+
+  useEffect(() => registerCommands(() => latest.current), []);
+};
@@ -0,0 +1,623 @@
+import { renderMathHtml } from './mathRender';
+
+// Structured document model behind the editor.
+//
+// A note is a flat list of blocks; consecutive list items of the same kind
+// serialize to one <ul>/<ol>. Blocks hold inline nodes carrying marks.
+// Positions are { block, offset } where the offset counts inline sizes, which
+// match what the rendered DOM contributes (text length, 1 for images, line
+// breaks and math nodes), so DOM selections map onto the model and back.
+
+export type MarkType = 'bold' | 'italic' | 'underline' | 'strike' | 'code' | 'sub' | 'sup' | 'highlight' | 'link' | 'font';
+
+export type Mark =
+  | { type: Exclude<MarkType, 'link' | 'font'> }
+  | { type: 'link'; href: string }
+  | { type: 'font'; family: string };
+
+export type Inline =
+  | { type: 'text'; text: string; marks: Mark[] }
+  | { type: 'math'; tex: string; display: boolean; marks: Mark[] }
+  | { type: 'image'; src: string; alt?: string; width?: string; marks: Mark[] }
+  | { type: 'break'; marks: Mark[] };
+
+export type HeadingLevel = 1 | 2 | 3 | 4 | 5 | 6;
+
+export type Block =
+  | { type: 'paragraph'; content: Inline[] }
+  | { type: 'heading'; level: HeadingLevel; content: Inline[] }
+  | { type: 'listItem'; ordered: boolean; content: Inline[] }
+  | { type: 'quote'; content: Inline[] };
+
+export interface Doc {
+  blocks: Block[];
+}
+
+export interface Pos {
+  block: number;
+  offset: number;
+}
+
+export interface DocSelection {
+  anchor: Pos;
+  head: Pos;
+}
+
+export interface EditorState {
+  doc: Doc;
+  selection: DocSelection | null;
+}
+
+// ---------------------------------------------------------------------------
+// Marks
+
+// Outermost first when serializing
+const MARK_ORDER: MarkType[] = ['link', 'font', 'highlight', 'bold', 'italic', 'underline', 'strike', 'code', 'sub', 'sup'];
+
+export const sameMark = (a: Mark, b: Mark) =>
+  a.type === b.type
+  && (a.type !== 'link' || a.href === (b as typeof a).href)
+  && (a.type !== 'font' || a.family === (b as typeof a).family);
+
+export const hasMark = (marks: Mark[], mark: Mark) => marks.some(m => sameMark(m, mark));
+
+export const sortMarks = (marks: Mark[]) =>
+  [...marks].sort((a, b) => MARK_ORDER.indexOf(a.type) - MARK_ORDER.indexOf(b.type));
+
+const sameMarkSet = (a: Mark[], b: Mark[]) =>
+  a.length === b.length && a.every(mark => hasMark(b, mark));
+
+// ---------------------------------------------------------------------------
+// Inline helpers
+
+export const inlineSize = (inline: Inline): number =>
+  inline.type === 'text' ? inline.text.length : 1;
+
+export const contentSize = (content: Inline[]) =>
+  content.reduce((size, inline) => size + inlineSize(inline), 0);
+
+export const mathSource = (math: { tex: string; display: boolean }) =>
+  math.display ? `$$${math.tex}$$` : `$${math.tex}$`;
+
+// Merges neighbouring text runs with identical marks and drops empty ones
+export const normalizeContent = (content: Inline[]): Inline[] => {
+  const result: Inline[] = [];
+  for (const inline of content) {
+    if (inline.type === 'text' && !inline.text) continue;
+    const last = result[result.length - 1];
+    if (inline.type === 'text' && last?.type === 'text' && sameMarkSet(last.marks, inline.marks)) {
+      result[result.length - 1] = { ...last, text: last.text + inline.text };
+    } else {
+      result.push(inline);
+    }
+  }
+  return result;
+};
+
+// Splits content at `offset`; offsets inside an atom snap to after it
+export const splitContent = (content: Inline[], offset: number): [Inline[], Inline[]] => {
+  const before: Inline[] = [];
+  const after: Inline[] = [];
+  let position = 0;
+
+  for (const inline of content) {
+    const size = inlineSize(inline);
+    if (position + size <= offset) {
+      before.push(inline);
+    } else if (position >= offset) {
+      after.push(inline);
+    } else if (inline.type === 'text') {
+      const cut = offset - position;
+      before.push({ ...inline, text: inline.text.slice(0, cut) });
+      after.push({ ...inline, text: inline.text.slice(cut) });
+    } else {
+      before.push(inline);
+    }
+    position += size;
+  }
+  return [before, after];
+};
+
+// Stands in for atoms so delimiters never pair up across an image or break
+const ATOM_CHAR = '\uFFFC';
+const MATH_PATTERN = /\$\$([^$\uFFFC]+?)\$\$|\$([^$\uFFFC]+?)\$/g;
+
+// Turns $...$ / $$...$$ written as text into math nodes, including formulas
+// split across formatting (e.g. `$x^<b>2</b>$`). Returns the new content and
+// a mapping from old offsets to new ones; offsets inside a formula map after it.
+export const extractMath = (content: Inline[]): { content: Inline[]; mapOffset: (offset: number) => number } => {
+  const text = content.map(inline => inline.type === 'text' ? inline.text : ATOM_CHAR).join('');
+  const matches = Array.from(text.matchAll(MATH_PATTERN)).filter(match => {
+    // Dollar signs inside code stay literal
+    const [, rest] = splitContent(content, match.index!);
+    return !rest[0]?.marks.some(mark => mark.type === 'code');
+  });
+  if (!matches.length) return { content, mapOffset: offset => offset };
+
+  const result: Inline[] = [];
+  let last = 0;
+  for (const match of matches) {
+    const start = match.index!;
+    const [, fromLast] = splitContent(content, last);
+    const [between, rest] = splitContent(fromLast, start - last);
+    const display = match[1] !== undefined;
+    result.push(...between, { type: 'math', tex: display ? match[1] : match[2], display, marks: rest[0]?.marks ?? [] });
+    last = start + match[0].length;
+  }
+  result.push(...splitContent(content, last)[1]);
+
+  const mapOffset = (offset: number) => {
+    let shift = 0;
+    for (const match of matches) {
+      const start = match.index!;
+      const end = start + match[0].length;
+      if (offset <= start) break;
+      if (offset < end) return start - shift + 1;
+      shift += match[0].length - 1;
+    }
+    return offset - shift;
+  };
+  return { content: normalizeContent(result), mapOffset };
+};
+
+export const parseMathText = (text: string, marks: Mark[]): Inline[] =>
+  extractMath([{ type: 'text', text, marks }]).content;
+
+// ---------------------------------------------------------------------------
+// Parsing HTML (stored content or live editor DOM) into the model
+
+const BLOCK_TAGS = new Set(['P', 'DIV', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'UL', 'OL', 'LI', 'BLOCKQUOTE', 'PRE', 'SECTION', 'ARTICLE', 'HEADER', 'FOOTER', 'TABLE', 'TBODY', 'THEAD', 'TR', 'TD', 'TH', 'FIGURE', 'HR']);
+
+const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'TEMPLATE', 'HEAD', 'META', 'LINK', 'TITLE', 'NOSCRIPT']);
+
+const marksForElement = (element: HTMLElement): Mark[] => {
+  const marks: Mark[] = [];
+  switch (element.tagName) {
+    case 'B': case 'STRONG': marks.push({ type: 'bold' }); break;
+    case 'I': case 'EM': marks.push({ type: 'italic' }); break;
+    case 'U': case 'INS': marks.push({ type: 'underline' }); break;
+    case 'S': case 'DEL': case 'STRIKE': marks.push({ type: 'strike' }); break;
+    case 'CODE': case 'PRE': marks.push({ type: 'code' }); break;
+    case 'SUB': marks.push({ type: 'sub' }); break;
+    case 'SUP': marks.push({ type: 'sup' }); break;
+    case 'MARK': marks.push({ type: 'highlight' }); break;
+    case 'A': {
+      const href = element.getAttribute('href');
+      if (href) marks.push({ type: 'link', href });
+      break;
+    }
+    case 'FONT': {
+      const face = element.getAttribute('face');
+      if (face) marks.push({ type: 'font', family: face });
+      break;
+    }
+  }
+
+  if (element.classList.contains('ai-highlight')) marks.push({ type: 'highlight' });
+  const style = element.style;
+  if (style.fontWeight === 'bold' || Number(style.fontWeight) >= 600) marks.push({ type: 'bold' });
+  if (style.fontStyle === 'italic') marks.push({ type: 'italic' });
+  if (style.textDecoration.includes('line-through')) marks.push({ type: 'strike' });
+  if (style.textDecoration.includes('underline')) marks.push({ type: 'underline' });
+  if (style.fontFamily && element.tagName === 'SPAN') marks.push({ type: 'font', family: style.fontFamily });
+  return marks;
+};
+
+const addMarks = (marks: Mark[], extra: Mark[]) => {
+  let result = marks;
+  for (const mark of extra) {
+    // A new font or link replaces an inherited one
+    result = result.filter(m => !(m.type === mark.type && (m.type === 'font' || m.type === 'link')));
+    if (!hasMark(result, mark)) result = [...result, mark];
+  }
+  return result;
+};
+
+export interface DomPoint {
+  node: globalThis.Node;
+  offset: number;
+}
+
+interface ParseContext {
+  blocks: Block[];
+  current: Block | null;
+  list: boolean | null; // ordered flag of the enclosing list
+  quote: boolean;
+  points: (DomPoint | null)[];
+  resolved: (Pos | null)[];
+  // Points that fell between blocks resolve to the start of the next block
+  pendingPoints: number[];
+}
+
+const currentPos = (ctx: ParseContext): Pos | null =>
+  ctx.current ? { block: ctx.blocks.length - 1, offset: contentSize(ctx.current.content) } : null;
+
+const recordPoint = (ctx: ParseContext, index: number, offsetInText = 0) => {
+  if (ctx.resolved[index]) return;
+  const pos = currentPos(ctx);
+  if (pos) ctx.resolved[index] = { block: pos.block, offset: pos.offset + offsetInText };
+  else ctx.pendingPoints.push(index);
+};
+
+const startBlock = (ctx: ParseContext, block: Block) => {
+  ctx.blocks.push(block);
+  ctx.current = block;
+  ctx.pendingPoints.forEach(index => { ctx.resolved[index] = { block: ctx.blocks.length - 1, offset: 0 }; });
+  ctx.pendingPoints = [];
+};
+
+const ensureBlock = (ctx: ParseContext) => {
+  if (!ctx.current) {
+    startBlock(ctx, ctx.list !== null
+      ? { type: 'listItem', ordered: ctx.list, content: [] }
+      : ctx.quote ? { type: 'quote', content: [] } : { type: 'paragraph', content: [] });
+  }
+  return ctx.current!;
+};
+
+const endBlock = (ctx: ParseContext) => {
+  ctx.current = null;
+};
+
+const checkElementPoints = (ctx: ParseContext, node: globalThis.Node, childIndex: number) => {
+  ctx.points.forEach((point, index) => {
+    if (point && point.node === node && point.offset === childIndex) recordPoint(ctx, index);
+  });
+};
+
+const walk = (node: globalThis.Node, marks: Mark[], ctx: ParseContext) => {
+  if (node.nodeType === 3 /* TEXT_NODE */) {
+    const text = node.nodeValue || '';
+    const pointsHere = ctx.points
+      .map((point, index) => ({ point, index }))
+      .filter(({ point }) => point && point.node === node);
+
+    // Formatting whitespace between blocks isn't content
+    if (!ctx.current && !text.trim()) {
+      pointsHere.forEach(({ index }) => recordPoint(ctx, index));
+      return;
+    }
+
+    const block = ensureBlock(ctx);
+    pointsHere.forEach(({ point, index }) => recordPoint(ctx, index, point!.offset));
+    // Math written as text is extracted once the whole block is known
+    block.content.push({ type: 'text', text, marks });
+    return;
+  }
+
+  if (node.nodeType !== 1 /* ELEMENT_NODE */) return;
+  const element = node as HTMLElement;
+  const tag = element.tagName;
+  // SVG and MathML elements keep lowercase tag names
+  if (SKIPPED_TAGS.has(tag.toUpperCase())) return;
+
+  if (tag === 'BR') {
+    checkElementPoints(ctx, element, 0);
+    ensureBlock(ctx).content.push({ type: 'break', marks });
+    return;
+  }
+
+  // Math nodes, stored (<span data-math>) or rendered; the KaTeX markup inside isn't content
+  if (element.hasAttribute('data-math')) {
+    const block = ensureBlock(ctx);
+    ctx.points.forEach((point, index) => {
+      if (point && element.contains(point.node)) recordPoint(ctx, index);
+    });
+    const display = element.getAttribute('data-math') === 'display';
+    const source = (element.textContent || '').trim();
+    const tex = element.getAttribute('data-tex') ?? source.replace(display ? /^\$\$|\$\$$/g : /^\$|\$$/g, '');
+    block.content.push({ type: 'math', tex, display, marks });
+    return;
+  }
+
+  if (tag === 'IMG') {
+    const src = element.getAttribute('src');
+    if (!src) return;
+    const block = ensureBlock(ctx);
+    block.content.push({
+      type: 'image',
+      src,
+      alt: element.getAttribute('alt') || undefined,
+      width: element.style.width || element.getAttribute('width') || undefined,
+      marks
+    });
+    return;
+  }
+
+  const childMarks = addMarks(marks, marksForElement(element));
+  const walkChildren = () => {
+    element.childNodes.forEach((child, index) => {
+      checkElementPoints(ctx, element, index);
+      walk(child, childMarks, ctx);
+    });
+    checkElementPoints(ctx, element, element.childNodes.length);
+  };
+
+  if (!BLOCK_TAGS.has(tag)) {
+    walkChildren();
+    return;
+  }
+
+  const saved = { list: ctx.list, quote: ctx.quote };
+  endBlock(ctx);
+
+  if (tag === 'UL' || tag === 'OL') {
+    ctx.list = tag === 'OL';
+    walkChildren();
+  } else if (tag === 'LI') {
+    startBlock(ctx, { type: 'listItem', ordered: ctx.list ?? false, content: [] });
+    walkChildren();
+  } else if (/^H[1-6]$/.test(tag)) {
+    startBlock(ctx, { type: 'heading', level: Number(tag[1]) as HeadingLevel, content: [] });
+    walkChildren();
+  } else if (tag === 'BLOCKQUOTE') {
+    ctx.quote = true;
+    walkChildren();
+  } else if (tag === 'HR') {
+    // No horizontal rule in the schema; it just separates blocks
+  } else {
+    walkChildren();
+  }
+
+  endBlock(ctx);
+  ctx.list = saved.list;
+  ctx.quote = saved.quote;
+};
+
+export const parseDom = (root: globalThis.Node, points: (DomPoint | null)[] = []): { doc: Doc; positions: (Pos | null)[] } => {
+  const ctx: ParseContext = {
+    blocks: [],
+    current: null,
+    list: null,
+    quote: false,
+    points,
+    resolved: points.map(() => null),
+    pendingPoints: []
+  };
+
+  root.childNodes.forEach((child, index) => {
+    checkElementPoints(ctx, root, index);
+    walk(child, [], ctx);
+    endBlock(ctx);
+  });
+  checkElementPoints(ctx, root, root.childNodes.length);
+
+  const blocks = ctx.blocks.map((block, blockIndex) => {
+    const { content, mapOffset } = extractMath(normalizeContent(block.content));
+    ctx.resolved.forEach(pos => {
+      if (pos && pos.block === blockIndex) pos.offset = mapOffset(pos.offset);
+    });
+    return { ...block, content };
+  });
+  if (!blocks.length) blocks.push({ type: 'paragraph', content: [] });
+
+  // Anything still unresolved sits after the last block
+  const lastBlock = blocks.length - 1;
+  const positions = ctx.resolved.map((pos, index) =>
+    pos ?? (points[index] ? { block: lastBlock, offset: contentSize(blocks[lastBlock].content) } : null));
+
+  return { doc: { blocks }, positions };
+};
+
+// Inert parse: scripts don't run and images don't load
+export const parseHtml = (html: string): Doc =>
+  parseDom(new DOMParser().parseFromString(html, 'text/html').body).doc;
+
+// ---------------------------------------------------------------------------
+// Serializing
+
+export const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const openMark = (mark: Mark) => {
+  switch (mark.type) {
+    case 'bold': return '<strong>';
+    case 'italic': return '<em>';
+    case 'underline': return '<u>';
+    case 'strike': return '<s>';
+    case 'code': return '<code>';
+    case 'sub': return '<sub>';
+    case 'sup': return '<sup>';
+    case 'highlight': return '<span class="ai-highlight">';
+    case 'link': return `<a href="${escapeHtml(mark.href)}">`;
+    case 'font': return `<span style="font-family: ${escapeHtml(mark.family)}">`;
+  }
+};
+
+const closeMark = (mark: Mark) => {
+  switch (mark.type) {
+    case 'bold': return '</strong>';
+    case 'italic': return '</em>';
+    case 'underline': return '</u>';
+    case 'strike': return '</s>';
+    case 'code': return '</code>';
+    case 'sub': return '</sub>';
+    case 'sup': return '</sup>';
+    case 'link': return '</a>';
+    default: return '</span>';
+  }
+};
+
+export type InlineRenderer = (inline: Exclude<Inline, { type: 'text' }>) => string;
+
+// Stored form keeps the $...$ source as text so plain-text consumers still see it
+export const renderInlineAtom: InlineRenderer = (inline) => {
+  switch (inline.type) {
+    case 'math':
+      return `<span data-math="${inline.display ? 'display' : 'inline'}" data-tex="${escapeHtml(inline.tex)}">${escapeHtml(mathSource(inline))}</span>`;
+    case 'break': return '<br>';
+    case 'image': {
+      const alt = inline.alt ? ` alt="${escapeHtml(inline.alt)}"` : '';
+      const style = inline.width ? ` style="width: ${escapeHtml(inline.width)}; height: auto;"` : '';
+      return `<img src="${escapeHtml(inline.src)}"${alt}${style}>`;
+    }
+  }
+};
+
+// Opens and closes marks as a stack so shared marks wrap whole runs
+export const serializeContent = (content: Inline[], renderAtom: InlineRenderer = renderInlineAtom) => {
+  let html = '';
+  const open: Mark[] = [];
+
+  for (const inline of content) {
+    const wanted = sortMarks(inline.marks);
+    let keep = 0;
+    while (keep < open.length && keep < wanted.length && sameMark(open[keep], wanted[keep])) keep++;
+    while (open.length > keep) html += closeMark(open.pop()!);
+    for (const mark of wanted.slice(keep)) {
+      html += openMark(mark);
+      open.push(mark);
+    }
+    html += inline.type === 'text' ? escapeHtml(inline.text) : renderAtom(inline);
+  }
+  while (open.length) html += closeMark(open.pop()!);
+  return html;
+};
+
+const blockTag = (block: Block) => {
+  switch (block.type) {
+    case 'heading': return `h${block.level}`;
+    case 'quote': return 'blockquote';
+    case 'listItem': return 'li';
+    default: return 'p';
+  }
+};
+
+export const serializeDoc = (doc: Doc, renderAtom: InlineRenderer = renderInlineAtom, emptyBlock = '') => {
+  let html = '';
+  let openList: boolean | null = null;
+
+  for (const block of doc.blocks) {
+    const ordered = block.type === 'listItem' ? block.ordered : null;
+    if (openList !== null && openList !== ordered) {
+      html += openList ? '</ol>' : '</ul>';
+      openList = null;
+    }
+    if (ordered !== null && openList === null) {
+      html += ordered ? '<ol>' : '<ul>';
+      openList = ordered;
+    }
+
+    const tag = blockTag(block);
+    const inner = serializeContent(block.content, renderAtom);
+    html += `<${tag}>${inner || emptyBlock}</${tag}>`;
+  }
+  if (openList !== null) html += openList ? '</ol>' : '</ul>';
+  return html;
+};
+
+// Typeset math, keeping data-tex so the source survives a round trip
+const renderMathAtom = (inline: Extract<Inline, { type: 'math' }>, attributes = '') => {
+  const kind = inline.display ? 'display' : 'inline';
+  return `<span class="math-node math-${kind}" data-math="${kind}" data-tex="${escapeHtml(inline.tex)}"${attributes}>${renderMathHtml(inline.tex, inline.display)}</span>`;
+};
+
+// Math in the live editor is a non-editable KaTeX rendering
+const renderEditorAtom: InlineRenderer = (inline) =>
+  inline.type === 'math' ? renderMathAtom(inline, ' data-atom contenteditable="false"') : renderInlineAtom(inline);
+
+// HTML for the live contentEditable: empty blocks get a <br> so the caret can enter them
+export const renderDoc = (doc: Doc) => serializeDoc(doc, renderEditorAtom, '<br>');
+
+// Read-only HTML for exports: math is typeset, nothing is marked editable
+export const renderStaticDoc = (doc: Doc) =>
+  serializeDoc(doc, inline => inline.type === 'math' ? renderMathAtom(inline) : renderInlineAtom(inline), '<br>');
+
+// Splits HTML at every H1/H2 heading into titled sections, e.g. to process a
+// long note piece by piece. Content before the first heading is its own section.
+export const splitSections = (html: string): { title: string; html: string }[] => {
+  const { blocks } = parseHtml(html);
+  const sections: { title: string; blocks: Block[] }[] = [];
+
+  for (const block of blocks) {
+    const current = sections[sections.length - 1];
+    const startsSection = block.type === 'heading' && block.level <= 2;
+    if (!current || startsSection) {
+      const title = startsSection ? block.content.map(inline => inline.type === 'text' ? inline.text : '').join('').trim() : '';
+      sections.push({ title, blocks: [block] });
+    } else {
+      current.blocks.push(block);
+    }
+  }
+
+  return sections.map((section, index) => ({
+    title: section.title || (index === 0 ? 'Introduction' : `Section ${index + 1}`),
+    html: serializeDoc({ blocks: section.blocks })
+  }));
+};
+
+// ---------------------------------------------------------------------------
+// Mapping between model positions and the rendered DOM
+
+// Block elements of rendered content, in model order
+export const domBlocks = (root: HTMLElement): HTMLElement[] =>
+  Array.from(root.children).flatMap(child =>
+    child.tagName === 'UL' || child.tagName === 'OL'
+      ? Array.from(child.children) as HTMLElement[]
+      : [child as HTMLElement]);
+
+const isAtomElement = (node: globalThis.Node) =>
+  node.nodeType === 1 && (['IMG', 'BR'].includes((node as Element).tagName) || (node as Element).hasAttribute('data-atom'));
+
+export const posToDom = (root: HTMLElement, pos: Pos): DomPoint => {
+  const blocks = domBlocks(root);
+  const block = blocks[Math.min(pos.block, blocks.length - 1)];
+  if (!block) return { node: root, offset: 0 };
+
+  let remaining = pos.offset;
+  let found: DomPoint | null = null;
+
+  const visit = (node: globalThis.Node): boolean => {
+    if (node.nodeType === 3) {
+      const length = (node.nodeValue || '').length;
+      if (remaining <= length) {
+        found = { node, offset: remaining };
+        return true;
+      }
+      remaining -= length;
+      return false;
+    }
+    if (isAtomElement(node)) {
+      const parent = node.parentNode!;
+      const index = Array.prototype.indexOf.call(parent.childNodes, node);
+      if (remaining === 0) {
+        found = { node: parent, offset: index };
+        return true;
+      }
+      remaining -= 1;
+      if (remaining === 0 && (node as Element).tagName !== 'BR') {
+        found = { node: parent, offset: index + 1 };
+        return true;
+      }
+      return false;
+    }
+    for (const child of Array.from(node.childNodes)) {
+      if (visit(child)) return true;
+    }
+    return false;
+  };
+
+  visit(block);
+  return found ?? { node: block, offset: block.childNodes.length };
+};
+
+// Reads the live editor DOM and its selection into an EditorState
+export const readDomState = (root: HTMLElement, range: Range | null): EditorState => {
+  const inside = range && root.contains(range.startContainer) && root.contains(range.endContainer);
+  const points: DomPoint[] = inside
+    ? [{ node: range.startContainer, offset: range.startOffset }, { node: range.endContainer, offset: range.endOffset }]
+    : [];
+  const { doc, positions } = parseDom(root, points);
+
+  const selection = inside && positions[0] && positions[1]
+    ? { anchor: positions[0], head: positions[1] }
+    : null;
+  return { doc, selection };
+};
+
+export const comparePos = (a: Pos, b: Pos) => a.block - b.block || a.offset - b.offset;
+
+export const selectionRange = (selection: DocSelection): [Pos, Pos] =>
+  comparePos(selection.anchor, selection.head) <= 0
+    ? [selection.anchor, selection.head]
+    : [selection.head, selection.anchor];
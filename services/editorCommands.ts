@@ -0,0 +1,213 @@
+import {
+  Block,
+  Doc,
+  DocSelection,
+  EditorState,
+  HeadingLevel,
+  Inline,
+  Mark,
+  Pos,
+  contentSize,
+  hasMark,
+  normalizeContent,
+  parseHtml,
+  parseMathText,
+  sameMark,
+  selectionRange,
+  splitContent
+} from './documentModel';
+import { sanitizeDoc } from './sanitizer';
+
+// Editing commands as transactions: each takes the current state and returns
+// the next one (or null when it doesn't apply), never touching the DOM.
+
+export type EditorCommand = (state: EditorState) => EditorState | null;
+
+const collapsed = (pos: Pos): DocSelection => ({ anchor: pos, head: pos });
+
+const docEnd = (doc: Doc): Pos => {
+  const block = doc.blocks.length - 1;
+  return { block, offset: contentSize(doc.blocks[block].content) };
+};
+
+// The selection to act on; with no selection, commands apply at the end of the document
+const rangeOf = (state: EditorState): [Pos, Pos] =>
+  state.selection ? selectionRange(state.selection) : [docEnd(state.doc), docEnd(state.doc)];
+
+const withContent = (block: Block, content: Inline[]): Block => ({ ...block, content: normalizeContent(content) });
+
+const mapBlocks = (doc: Doc, from: number, to: number, fn: (block: Block) => Block): Doc => ({
+  blocks: doc.blocks.map((block, index) => index >= from && index <= to ? fn(block) : block)
+});
+
+// Calls `fn` on the [from, to) slice of every block the range touches
+const mapInlineRange = (doc: Doc, [start, end]: [Pos, Pos], fn: (inlines: Inline[]) => Inline[]): Doc =>
+  mapBlocks(doc, start.block, end.block, block => {
+    const index = doc.blocks.indexOf(block);
+    const from = index === start.block ? start.offset : 0;
+    const to = index === end.block ? end.offset : contentSize(block.content);
+    const [before, rest] = splitContent(block.content, from);
+    const [middle, after] = splitContent(rest, to - from);
+    return withContent(block, [...before, ...fn(middle), ...after]);
+  });
+
+const rangeInlines = (doc: Doc, [start, end]: [Pos, Pos]): Inline[] => {
+  const inlines: Inline[] = [];
+  for (let index = start.block; index <= end.block; index++) {
+    const block = doc.blocks[index];
+    const from = index === start.block ? start.offset : 0;
+    const to = index === end.block ? end.offset : contentSize(block.content);
+    const [, rest] = splitContent(block.content, from);
+    inlines.push(...splitContent(rest, to - from)[0]);
+  }
+  return inlines;
+};
+
+// Collapsed selections act on the word around the caret
+const wordRange = (doc: Doc, pos: Pos): [Pos, Pos] => {
+  const text = doc.blocks[pos.block].content
+    .map(inline => inline.type === 'text' ? inline.text : ' '.repeat(contentSize([inline])))
+    .join('');
+  let from = pos.offset;
+  let to = pos.offset;
+  while (from > 0 && /\w/.test(text[from - 1])) from--;
+  while (to < text.length && /\w/.test(text[to])) to++;
+  return [{ block: pos.block, offset: from }, { block: pos.block, offset: to }];
+};
+
+const markRange = (state: EditorState): [Pos, Pos] => {
+  const range = rangeOf(state);
+  return range[0].block === range[1].block && range[0].offset === range[1].offset
+    ? wordRange(state.doc, range[0])
+    : range;
+};
+
+export const toggleMark = (mark: Mark): EditorCommand => (state) => {
+  const range = markRange(state);
+  const inlines = rangeInlines(state.doc, range);
+  if (!inlines.length) return null;
+
+  const active = inlines.every(inline => hasMark(inline.marks, mark));
+  const doc = mapInlineRange(state.doc, range, slice => slice.map(inline => ({
+    ...inline,
+    marks: active ? inline.marks.filter(m => !sameMark(m, mark)) : [...inline.marks, mark]
+  })));
+  return { doc, selection: state.selection };
+};
+
+// Replaces any font on the range rather than toggling
+export const setFont = (family: string): EditorCommand => (state) => {
+  const range = markRange(state);
+  if (!rangeInlines(state.doc, range).length) return null;
+
+  const doc = mapInlineRange(state.doc, range, slice => slice.map(inline => ({
+    ...inline,
+    marks: [...inline.marks.filter(m => m.type !== 'font'), { type: 'font', family }]
+  })));
+  return { doc, selection: state.selection };
+};
+
+type TextBlockType = { type: 'paragraph' } | { type: 'heading'; level: HeadingLevel } | { type: 'quote' };
+
+const isBlockType = (block: Block, target: TextBlockType) =>
+  block.type === target.type && (target.type !== 'heading' || (block as { level: HeadingLevel }).level === target.level);
+
+// Applying a type every selected block already has turns them back into paragraphs
+export const setBlockType = (target: TextBlockType): EditorCommand => (state) => {
+  const [start, end] = rangeOf(state);
+  const selected = state.doc.blocks.slice(start.block, end.block + 1);
+  const next: TextBlockType = selected.every(block => isBlockType(block, target)) ? { type: 'paragraph' } : target;
+
+  const doc = mapBlocks(state.doc, start.block, end.block, block => ({ ...next, content: block.content } as Block));
+  return { doc, selection: state.selection };
+};
+
+export const toggleList = (ordered: boolean): EditorCommand => (state) => {
+  const [start, end] = rangeOf(state);
+  const selected = state.doc.blocks.slice(start.block, end.block + 1);
+  const active = selected.every(block => block.type === 'listItem' && block.ordered === ordered);
+
+  const doc = mapBlocks(state.doc, start.block, end.block, block => active
+    ? { type: 'paragraph', content: block.content }
+    : { type: 'listItem', ordered, content: block.content });
+  return { doc, selection: state.selection };
+};
+
+// Removes the range, joining its first and last blocks
+export const deleteRange = (doc: Doc, [start, end]: [Pos, Pos]): Doc => {
+  const first = doc.blocks[start.block];
+  const last = doc.blocks[end.block];
+  const [before] = splitContent(first.content, start.offset);
+  const [, after] = splitContent(last.content, end.offset);
+
+  return {
+    blocks: [
+      ...doc.blocks.slice(0, start.block),
+      withContent(first, [...before, ...after]),
+      ...doc.blocks.slice(end.block + 1)
+    ]
+  };
+};
+
+const isEmptyBlock = (block: Block) => contentSize(block.content) === 0;
+
+// Inserts parsed blocks at the selection. A single paragraph is spliced inline;
+// several blocks split the block at the caret and go in between its halves.
+export const insertBlocks = (fragment: Block[]): EditorCommand => (state) => {
+  if (!fragment.length) return null;
+  const range = rangeOf(state);
+  const doc = deleteRange(state.doc, range);
+  const pos = range[0];
+  const target = doc.blocks[pos.block];
+  const [before, after] = splitContent(target.content, pos.offset);
+
+  if (fragment.length === 1 && fragment[0].type === 'paragraph') {
+    const inserted = fragment[0].content;
+    const blocks = [...doc.blocks];
+    blocks[pos.block] = withContent(target, [...before, ...inserted, ...after]);
+    return {
+      doc: { blocks },
+      selection: collapsed({ block: pos.block, offset: contentSize(before) + contentSize(inserted) })
+    };
+  }
+
+  const head = withContent(target, before);
+  const tail = withContent(target, after);
+  const middle = [
+    ...(isEmptyBlock(head) ? [] : [head]),
+    ...fragment,
+    ...(isEmptyBlock(tail) ? [] : [tail])
+  ];
+  const lastInserted = pos.block + (isEmptyBlock(head) ? 0 : 1) + fragment.length - 1;
+
+  return {
+    doc: { blocks: [...doc.blocks.slice(0, pos.block), ...middle, ...doc.blocks.slice(pos.block + 1)] },
+    selection: collapsed({ block: lastInserted, offset: contentSize(middle[lastInserted - pos.block].content) })
+  };
+};
+
+export const insertInlines = (inlines: Inline[]): EditorCommand =>
+  insertBlocks([{ type: 'paragraph', content: inlines }]);
+
+export const insertText = (text: string, marks: Mark[] = []): EditorCommand =>
+  insertInlines(parseMathText(text, marks));
+
+export const insertImages = (srcs: string[]): EditorCommand =>
+  insertInlines(srcs.map(src => ({ type: 'image' as const, src, marks: [] })));
+
+export const insertImage = (src: string): EditorCommand => insertImages([src]);
+
+// Plain text without formatting; each line becomes its own paragraph
+export const insertPlainText = (text: string): EditorCommand =>
+  insertBlocks(text.replace(/\r\n?/g, '\n').split('\n').map(line => ({ type: 'paragraph', content: parseMathText(line, []) })));
+
+// Parses an HTML fragment through the sanitizer and inserts it, optionally marked
+export const insertHtml = (html: string, marks: Mark[] = []): EditorCommand => {
+  const fragment = sanitizeDoc(parseHtml(html)).blocks
+    .filter(block => !isEmptyBlock(block))
+    .map(block => withContent(block, block.content.map(inline => ({
+      ...inline,
+      marks: [...inline.marks, ...marks.filter(mark => !hasMark(inline.marks, mark))]
+    }))));
+  return insertBlocks(fragment);
+};
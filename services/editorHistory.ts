@@ -0,0 +1,88 @@
+import { DocSelection } from './documentModel';
+
+// Editor-level undo/redo. Every mutation of the editor is recorded as a named
+// step holding the content before and after it, so programmatic edits (AI
+// Format, Replace, image resizes) undo the same way typing does.
+
+export interface EditorSnapshot {
+  html: string;
+  selection: DocSelection | null;
+}
+
+export interface HistoryStep {
+  label: string;
+  before: EditorSnapshot;
+  after: EditorSnapshot;
+  at: number;
+}
+
+export interface RecordOptions {
+  // Merge into the previous step when it has the same label and is recent (typing)
+  coalesce?: boolean;
+}
+
+export interface EditorHistory {
+  reset(snapshot: EditorSnapshot): void;
+  record(label: string, after: EditorSnapshot, options?: RecordOptions): boolean;
+  undo(): EditorSnapshot | null;
+  redo(): EditorSnapshot | null;
+  // Most recent first
+  done(): HistoryStep[];
+  undone(): HistoryStep[];
+}
+
+const MAX_STEPS = 100;
+const COALESCE_MS = 1000;
+
+export const createEditorHistory = (initial: EditorSnapshot = { html: '', selection: null }): EditorHistory => {
+  let current = initial;
+  let done: HistoryStep[] = [];
+  let undone: HistoryStep[] = [];
+
+  return {
+    reset(snapshot) {
+      current = snapshot;
+      done = [];
+      undone = [];
+    },
+
+    record(label, after, { coalesce = false } = {}) {
+      if (after.html === current.html) {
+        current = after;
+        return false;
+      }
+
+      const now = Date.now();
+      const last = done[done.length - 1];
+      if (coalesce && !undone.length && last?.label === label && now - last.at < COALESCE_MS) {
+        done[done.length - 1] = { ...last, after, at: now };
+      } else {
+        done = [...done, { label, before: current, after, at: now }].slice(-MAX_STEPS);
+      }
+      undone = [];
+      current = after;
+      return true;
+    },
+
+    undo() {
+      const step = done[done.length - 1];
+      if (!step) return null;
+      done = done.slice(0, -1);
+      undone = [...undone, step];
+      current = step.before;
+      return current;
+    },
+
+    redo() {
+      const step = undone[undone.length - 1];
+      if (!step) return null;
+      undone = undone.slice(0, -1);
+      done = [...done, step];
+      current = step.after;
+      return current;
+    },
+
+    done: () => [...done].reverse(),
+    undone: () => [...undone].reverse()
+  };
+};
@@ -0,0 +1,152 @@
+import { strToU8, zipSync } from 'fflate';
+import { NodeRecord } from '../types';
+import { NodeRepository, sortNodes } from './nodeRepository';
+import { escapeHtml, parseHtml, renderStaticDoc } from './documentModel';
+import { docToMarkdown } from './markdown';
+import { KATEX_STYLESHEET } from './mathRender';
+import { IMAGE_TYPES, NOTE_TITLE_ATTRIBUTE } from './importService';
+
+// Exports a folder, or every folder, as a zip mirroring the node tree. Notes
+// are written as Markdown with front-matter or as standalone HTML, with their
+// images (stored or still inline) copied into an `assets` directory beside
+// them, so the archive imports back into the same structure.
+
+export type ExportFormat = 'markdown' | 'html';
+
+export interface ExportResult {
+  blob: Blob;
+  filename: string;
+}
+
+interface Directory {
+  // Archive path, ending in a slash
+  path: string;
+  allocate: (base: string, extension?: string) => string;
+}
+
+const ASSETS_DIRECTORY = 'assets';
+
+const EXTENSIONS: Record<string, string> = Object.fromEntries(
+  Object.entries(IMAGE_TYPES).reverse().map(([extension, type]) => [type, extension])
+);
+
+// Characters that aren't allowed in file names on common filesystems
+const safeName = (title: string) => title.replace(/[\\/:*?"<>|\u0000-\u001f]/g, '-').trim() || 'Untitled';
+
+// Hands out names that are unique within one directory
+const nameAllocator = (reserved: string[] = []): Directory['allocate'] => {
+  const used = new Set(reserved.map(name => name.toLowerCase()));
+  return (base: string, extension = '') => {
+    let name = `${base}${extension}`;
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base} (${n})${extension}`;
+    used.add(name.toLowerCase());
+    return name;
+  };
+};
+
+// Fetches an image (stored URL or data URL); null when it can't be read, in
+// which case the note keeps pointing at the original address
+const fetchImage = async (src: string): Promise<{ data: Uint8Array; extension: string } | null> => {
+  try {
+    const response = await fetch(src);
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    const extension = EXTENSIONS[blob.type.split(';')[0].toLowerCase()];
+    return extension ? { data: new Uint8Array(await blob.arrayBuffer()), extension } : null;
+  } catch {
+    return null;
+  }
+};
+
+const frontMatter = (note: NodeRecord) => [
+  '---',
+  `title: ${JSON.stringify(note.title)}`,
+  `id: ${note.id}`,
+  `created_at: ${note.created_at}`,
+  `updated_at: ${note.updated_at}`,
+  '---',
+  ''
+].join('\n');
+
+const standaloneHtml = (note: NodeRecord, body: string) => `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(note.title)}</title>
+<meta name="note-id" content="${escapeHtml(note.id)}">
+<meta name="created" content="${escapeHtml(note.created_at)}">
+<meta name="updated" content="${escapeHtml(note.updated_at)}">
+<link rel="stylesheet" href="${KATEX_STYLESHEET}">
+</head>
+<body>
+<h1 ${NOTE_TITLE_ATTRIBUTE}>${escapeHtml(note.title)}</h1>
+${body}
+</body>
+</html>
+`;
+
+export const exportNodes = async (
+  repository: NodeRepository,
+  rootId: string | null,
+  format: ExportFormat
+): Promise<ExportResult> => {
+  const nodes = rootId ? await repository.listSubtree(rootId) : await repository.list();
+  const entries: Record<string, Uint8Array> = {};
+
+  // Every image is fetched once, even when several notes show it
+  const images = new Map<string, ReturnType<typeof fetchImage>>();
+
+  const writeFolder = async (folder: NodeRecord, parent: Directory) => {
+    const path = `${parent.path}${parent.allocate(safeName(folder.title))}/`;
+    const directory: Directory = { path, allocate: nameAllocator([ASSETS_DIRECTORY]) };
+
+    const children = sortNodes(nodes.filter(n => n.parent_id === folder.id));
+    if (!children.length) entries[path] = new Uint8Array(0); // keep empty folders
+    for (const child of children.filter(n => n.type === 'folder')) await writeFolder(child, directory);
+    for (const child of children.filter(n => n.type === 'file')) await writeNote(child, directory);
+  };
+
+  const writeNote = async (note: NodeRecord, directory: Directory) => {
+    const name = directory.allocate(safeName(note.title), format === 'markdown' ? '.md' : '.html');
+    const doc = parseHtml(note.content || '');
+
+    let imageCount = 0;
+    for (const block of doc.blocks) {
+      for (const inline of block.content) {
+        if (inline.type !== 'image') continue;
+        if (!images.has(inline.src)) images.set(inline.src, fetchImage(inline.src));
+        const image = await images.get(inline.src)!;
+        if (!image) continue;
+        const file = `${name.replace(/\.[^.]+$/, '')} ${++imageCount}.${image.extension}`;
+        entries[`${directory.path}${ASSETS_DIRECTORY}/${file}`] = image.data;
+        inline.src = `${ASSETS_DIRECTORY}/${encodeURIComponent(file)}`;
+      }
+    }
+
+    const text = format === 'markdown'
+      ? frontMatter(note) + docToMarkdown(doc)
+      : standaloneHtml(note, renderStaticDoc(doc));
+    entries[`${directory.path}${name}`] = strToU8(text);
+  };
+
+  // The exported folder, or every root folder, sits at the top of the archive
+  const top: Directory = { path: '', allocate: nameAllocator() };
+  const topFolders = sortNodes(nodes.filter(n => n.type === 'folder' && (rootId ? n.id === rootId : !n.parent_id)));
+  for (const folder of topFolders) await writeFolder(folder, top);
+
+  const root = rootId ? nodes.find(n => n.id === rootId) : undefined;
+  const date = new Date().toISOString().slice(0, 10);
+  return {
+    blob: new Blob([zipSync(entries)], { type: 'application/zip' }),
+    filename: root ? `${safeName(root.title).replace(/\s+/g, '_')}.zip` : `MonoText_Export_${date}.zip`
+  };
+};
+
+export const downloadBlob = ({ blob, filename }: ExportResult) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,41 @@
+// Subsequence fuzzy matching for the command palette.
+
+export interface FuzzyMatch {
+  score: number;
+  // Positions in the target that matched, for highlighting
+  indices: number[];
+}
+
+const isWordStart = (text: string, index: number) =>
+  index === 0 || /[\s\-_/.]/.test(text[index - 1]);
+
+// Returns null unless every query character appears in order in `target`.
+// Consecutive runs, word starts and early matches score higher.
+export const fuzzyMatch = (query: string, target: string): FuzzyMatch | null => {
+  const needle = query.toLowerCase().replace(/\s+/g, '');
+  if (!needle) return { score: 0, indices: [] };
+
+  const haystack = target.toLowerCase();
+  const indices: number[] = [];
+  let score = 0;
+  let from = 0;
+
+  for (const char of needle) {
+    const index = haystack.indexOf(char, from);
+    if (index === -1) return null;
+
+    const previous = indices[indices.length - 1];
+    score += 1;
+    if (previous !== undefined && index === previous + 1) score += 5;
+    if (isWordStart(target, index)) score += 3;
+    if (index === 0) score += 2;
+
+    indices.push(index);
+    from = index + 1;
+  }
+
+  // Prefer tighter and shorter matches
+  score -= (indices[indices.length - 1] - indices[0]) * 0.1;
+  score -= target.length * 0.01;
+  return { score, indices };
+};
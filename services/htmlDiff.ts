@@ -0,0 +1,176 @@
+// Block- and word-level diffing of note HTML, used by version history and
+// to review AI Format results change by change.
+
+export type DiffOp<T> =
+  | { type: 'equal'; items: T[] }
+  | { type: 'insert'; items: T[] }
+  | { type: 'delete'; items: T[] };
+
+// Largest LCS table built (4 bytes a cell); beyond it the changed middle is
+// reported as one deletion and one insertion
+const MAX_TABLE_CELLS = 4_000_000;
+
+// Longest-common-subsequence diff with an O(n*m) table. A shared prefix and
+// suffix are matched first, so the table only covers the part that changed.
+export const diffSequences = <T>(a: T[], b: T[], equals: (x: T, y: T) => boolean = (x, y) => x === y): DiffOp<T>[] => {
+  let start = 0;
+  while (start < a.length && start < b.length && equals(a[start], b[start])) start++;
+  let end = 0;
+  while (end < a.length - start && end < b.length - start && equals(a[a.length - 1 - end], b[b.length - 1 - end])) end++;
+
+  const ops: DiffOp<T>[] = [];
+  if (start) ops.push({ type: 'equal', items: a.slice(0, start) });
+  ops.push(...diffMiddle(a.slice(start, a.length - end), b.slice(start, b.length - end), equals));
+  if (end) ops.push({ type: 'equal', items: a.slice(a.length - end) });
+  return ops;
+};
+
+const diffMiddle = <T>(a: T[], b: T[], equals: (x: T, y: T) => boolean): DiffOp<T>[] => {
+  if ((a.length + 1) * (b.length + 1) > MAX_TABLE_CELLS) {
+    return [
+      ...(a.length ? [{ type: 'delete' as const, items: a }] : []),
+      ...(b.length ? [{ type: 'insert' as const, items: b }] : [])
+    ];
+  }
+
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const table = new Uint32Array(rows * cols);
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * cols + j] = equals(a[i], b[j])
+        ? table[(i + 1) * cols + j + 1] + 1
+        : Math.max(table[(i + 1) * cols + j], table[i * cols + j + 1]);
+    }
+  }
+
+  const ops: DiffOp<T>[] = [];
+  const push = (type: DiffOp<T>['type'], item: T) => {
+    const last = ops[ops.length - 1];
+    if (last && last.type === type) last.items.push(item);
+    else ops.push({ type, items: [item] });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (equals(a[i], b[j])) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (table[(i + 1) * cols + j] >= table[i * cols + j + 1]) {
+      push('delete', a[i++]);
+    } else {
+      push('insert', b[j++]);
+    }
+  }
+  while (i < a.length) push('delete', a[i++]);
+  while (j < b.length) push('insert', b[j++]);
+  return ops;
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Parsed into an inert document so images don't load and handlers never run
+const parseBody = (html: string) => new DOMParser().parseFromString(html, 'text/html').body;
+
+// Splits note HTML into its top-level blocks, wrapping loose inline content in <p>
+export const splitBlocks = (html: string): string[] => {
+  const container = parseBody(html);
+
+  const blocks: string[] = [];
+  let inline = '';
+  const flushInline = () => {
+    if (inline.trim()) blocks.push(`<p>${inline}</p>`);
+    inline = '';
+  };
+
+  container.childNodes.forEach(node => {
+    if (node.nodeType === Node.ELEMENT_NODE && /^(P|H[1-6]|UL|OL|LI|DIV|BLOCKQUOTE|PRE|TABLE|HR|FIGURE)$/.test(node.nodeName)) {
+      flushInline();
+      blocks.push((node as Element).outerHTML);
+    } else if (node.nodeType === Node.ELEMENT_NODE) {
+      inline += (node as Element).outerHTML;
+    } else if (node.nodeType === Node.TEXT_NODE) {
+      inline += escapeHtml(node.textContent || '');
+    }
+  });
+  flushInline();
+  return blocks;
+};
+
+export const blockText = (blockHtml: string) => parseBody(blockHtml).textContent || '';
+
+export const renderWordDiff = (oldText: string, newText: string) =>
+  diffSequences(oldText.split(/(\s+)/), newText.split(/(\s+)/))
+    .map(op => {
+      const text = escapeHtml(op.items.join(''));
+      if (op.type === 'insert') return `<ins class="diff-ins">${text}</ins>`;
+      if (op.type === 'delete') return `<del class="diff-del">${text}</del>`;
+      return text;
+    })
+    .join('');
+
+// A run of unchanged blocks, or a change replacing `before` with `after`
+// (either side may be empty for a pure deletion or insertion)
+export interface DiffHunk {
+  changed: boolean;
+  before: string[];
+  after: string[];
+}
+
+// Block diff grouped into hunks; adjacent deletions and insertions form one change
+export const diffBlocks = (oldHtml: string, newHtml: string): DiffHunk[] => {
+  const hunks: DiffHunk[] = [];
+  for (const op of diffSequences(splitBlocks(oldHtml), splitBlocks(newHtml))) {
+    const last = hunks[hunks.length - 1];
+    if (op.type === 'equal') {
+      hunks.push({ changed: false, before: op.items, after: op.items });
+    } else if (last?.changed) {
+      last[op.type === 'delete' ? 'before' : 'after'] = op.items;
+    } else {
+      hunks.push({ changed: true, before: op.type === 'delete' ? op.items : [], after: op.type === 'insert' ? op.items : [] });
+    }
+  }
+  return hunks;
+};
+
+// HTML with each change taken from `after` where accepted, else from `before`
+export const applyHunks = (hunks: DiffHunk[], accepted: (index: number) => boolean) =>
+  hunks.map((hunk, index) => (accepted(index) ? hunk.after : hunk.before).join('')).join('');
+
+// Text as far as a faithful reformat must keep it: whitespace, math
+// delimiters and markup don't count
+const comparableText = (blocks: string[]) =>
+  blocks.map(blockText).join('').replace(/\\[()[\]]|\$|\s/g, '');
+
+// Whether a change alters the words of the text, not just its formatting
+export const changesText = (hunk: DiffHunk) => comparableText(hunk.before) !== comparableText(hunk.after);
+
+// Renders `newHtml` against `oldHtml`: unchanged blocks as-is, removed and added
+// blocks highlighted, and one-for-one replaced blocks as an inline word diff.
+export const renderHtmlDiff = (oldHtml: string, newHtml: string): string => {
+  const ops = diffSequences(splitBlocks(oldHtml), splitBlocks(newHtml));
+  const parts: string[] = [];
+
+  for (let k = 0; k < ops.length; k++) {
+    const op = ops[k];
+    const next = ops[k + 1];
+
+    if (op.type === 'delete' && next?.type === 'insert' && next.items.length === op.items.length) {
+      op.items.forEach((oldBlock, index) => {
+        parts.push(`<p class="diff-changed">${renderWordDiff(blockText(oldBlock), blockText(next.items[index]))}</p>`);
+      });
+      k++;
+    } else if (op.type === 'delete') {
+      parts.push(...op.items.map(block => `<div class="diff-block-del">${block}</div>`));
+    } else if (op.type === 'insert') {
+      parts.push(...op.items.map(block => `<div class="diff-block-ins">${block}</div>`));
+    } else {
+      parts.push(...op.items);
+    }
+  }
+  return parts.join('');
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { ImageStorage, uploadInlineImages } from './imageStorage';
+
+const PNG = 'data:image/png;base64,iVBORw0KGgo=';
+const SVG = 'data:image/svg+xml;base64,PHN2Zz48L3N2Zz4=';
+
+// Records what would have been stored and hands back numbered URLs
+const fakeStorage = () => {
+  const types: string[] = [];
+  const storage: ImageStorage = {
+    async upload(image) {
+      types.push(image.type);
+      return `https://images.example.com/${types.length}`;
+    }
+  };
+  return { storage, types };
+};
+
+describe('uploadInlineImages', () => {
+  it('uploads raster data URLs once each and points the images at the stored copies', async () => {
+    const { storage, types } = fakeStorage();
+    const result = await uploadInlineImages(`<p><img src="${PNG}"><img src="${PNG}"></p>`, storage);
+    expect(types).toEqual(['image/png']);
+    expect(result).toEqual({
+      html: '<p><img src="https://images.example.com/1"><img src="https://images.example.com/1"></p>',
+      uploaded: 1
+    });
+  });
+
+  it('drops SVG and non-image data URLs instead of uploading them', async () => {
+    const { storage, types } = fakeStorage();
+    const result = await uploadInlineImages(`<p>a<img src="${SVG}"><img src="data:text/html,<script>alert(1)</script>">b</p>`, storage);
+    expect(types).toEqual([]);
+    expect(result).toEqual({ html: '<p>ab</p>', uploaded: 0 });
+  });
+});
@@ -0,0 +1,142 @@
+import { v4 as uuidv4 } from 'uuid';
+import { upload } from '@vercel/blob/client';
+import { supabase } from '../src/lib/supabase';
+import { NodeConflictError, NodeRepository, revisionOf } from './nodeRepository';
+import { sanitizeHtml } from './sanitizer';
+
+// Where note images live. Notes reference images by URL, so the backend only
+// has to store a file and hand back a public address for it. Chosen with
+// VITE_IMAGE_STORAGE: `supabase` (default), `vercel` or `local` (dev server).
+
+export interface ImageStorage {
+  // Stores the image and resolves to the URL notes should reference
+  upload(image: Blob): Promise<string>;
+}
+
+export type ImageStorageKind = 'supabase' | 'vercel' | 'local';
+
+export const IMAGE_BUCKET = 'note-images';
+
+// Served by the dev server plugin in vite.config.ts
+export const LOCAL_IMAGE_ENDPOINT = '/__local-images';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp'
+};
+
+// Only raster formats are stored: SVG can carry script, and the sanitizer drops it too
+const imageName = (image: Blob) => {
+  const extension = EXTENSIONS[image.type];
+  if (!extension) throw new Error('Only PNG, JPEG, GIF and WebP images can be stored');
+  return `${uuidv4()}.${extension}`;
+};
+
+// Objects are kept under the owner's id so storage policies can scope access per user
+export const createSupabaseImageStorage = (bucket = IMAGE_BUCKET): ImageStorage => ({
+  async upload(image) {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error('Sign in to upload images');
+
+    const path = `${session.user.id}/${imageName(image)}`;
+    const { error } = await supabase.storage.from(bucket).upload(path, image, { contentType: image.type });
+    if (error) throw error;
+    return supabase.storage.from(bucket).getPublicUrl(path).data.publicUrl;
+  }
+});
+
+// Client uploads get a short-lived token from the route in api/blob-upload.ts
+export const createVercelBlobImageStorage = (handleUploadUrl = '/api/blob-upload'): ImageStorage => ({
+  async upload(image) {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error('Sign in to upload images');
+
+    const blob = await upload(`images/${imageName(image)}`, image, {
+      access: 'public',
+      handleUploadUrl,
+      contentType: image.type,
+      headers: { Authorization: `Bearer ${session.access_token}` }
+    });
+    return blob.url;
+  }
+});
+
+// Development stand-in that writes files to disk through the Vite dev server
+export const createLocalImageStorage = (endpoint = LOCAL_IMAGE_ENDPOINT): ImageStorage => ({
+  async upload(image) {
+    const url = `${endpoint}/${imageName(image)}`;
+    const response = await fetch(url, { method: 'PUT', body: image, headers: { 'Content-Type': image.type } });
+    if (!response.ok) throw new Error(`Image upload failed (${response.status})`);
+    return url;
+  }
+});
+
+const createImageStorage = (kind: ImageStorageKind): ImageStorage => {
+  switch (kind) {
+    case 'vercel': return createVercelBlobImageStorage(import.meta.env.VITE_BLOB_UPLOAD_URL || undefined);
+    case 'local': return createLocalImageStorage();
+    default: return createSupabaseImageStorage();
+  }
+};
+
+export const imageStorage = createImageStorage(import.meta.env.VITE_IMAGE_STORAGE || 'supabase');
+
+export const isDataUrl = (src: string) => /^data:/i.test(src);
+
+export const dataUrlToBlob = async (src: string): Promise<Blob> => (await fetch(src)).blob();
+
+// Uploads every data-URL image in the HTML and points it at the stored copy.
+// Sanitizes first, so only the raster data URLs the sanitizer allows get
+// uploaded; anything else would come back as an accepted storage URL.
+export const uploadInlineImages = async (
+  html: string,
+  storage: ImageStorage = imageStorage
+): Promise<{ html: string; uploaded: number }> => {
+  const clean = sanitizeHtml(html);
+  const doc = new DOMParser().parseFromString(clean, 'text/html');
+  const images = Array.from(doc.querySelectorAll('img')).filter(img => isDataUrl(img.getAttribute('src') || ''));
+
+  // The same picture pasted twice is uploaded once
+  const urls = new Map<string, Promise<string>>();
+  for (const img of images) {
+    const src = img.getAttribute('src')!;
+    if (!urls.has(src)) urls.set(src, dataUrlToBlob(src).then(blob => storage.upload(blob)));
+    img.setAttribute('src', await urls.get(src)!);
+  }
+  return { html: images.length ? doc.body.innerHTML : clean, uploaded: urls.size };
+};
+
+// One-off migration for notes written before images moved to storage: moves
+// their data-URL images out and rewrites the references. Notes edited
+// elsewhere in the meantime, or that failed, are left for the next run and
+// counted as `remaining`.
+export const migrateInlineImages = async (
+  repository: NodeRepository,
+  storage: ImageStorage = imageStorage
+): Promise<{ notes: number; images: number; remaining: number }> => {
+  const result = { notes: 0, images: 0, remaining: 0 };
+  const notes = (await repository.list('file')).filter(note => /<img[^>]+src="data:/i.test(note.content || ''));
+
+  for (const note of notes) {
+    try {
+      const { html, uploaded } = await uploadInlineImages(note.content!, storage);
+      if (!uploaded) continue;
+      await repository.update(note.id, { content: sanitizeHtml(html) }, { expectedUpdatedAt: revisionOf(note) });
+      result.notes++;
+      result.images += uploaded;
+    } catch (error) {
+      if (!(error instanceof NodeConflictError)) console.error(`Error migrating images of note ${note.id}:`, error);
+      result.remaining++;
+    }
+  }
+  return result;
+};
+
+// Per user, since each account's notes are migrated separately
+const migratedKey = (userId: string) => `monotext-images-migrated:${userId}`;
+
+export const hasMigratedImages = (userId: string) => localStorage.getItem(migratedKey(userId)) === '1';
+
+export const markImagesMigrated = (userId: string) => localStorage.setItem(migratedKey(userId), '1');
@@ -0,0 +1,276 @@
+import { strFromU8, unzip, Unzipped } from 'fflate';
+import { NodeRecord } from '../types';
+import { NodeRepository } from './nodeRepository';
+import { escapeHtml } from './documentModel';
+import { sanitizeHtml } from './sanitizer';
+import { markdownToHtml } from './markdown';
+import { ImageStorage, imageStorage } from './imageStorage';
+
+// Imports .md, .html and .txt files, and zips of directory trees, as nodes.
+// Directories become folders and documents become notes; images referenced by
+// relative path are uploaded from the archive when it contains them.
+
+export interface ImportSummary {
+  folders: number;
+  notes: number;
+  // Relative image references uploaded from files in the archive
+  images: number;
+  // Paths that were not imported, with the reason
+  skipped: string[];
+  // Top-level nodes the import created
+  roots: NodeRecord[];
+}
+
+interface SourceFile {
+  // Directory segments followed by the file name
+  path: string[];
+  data: Uint8Array;
+}
+
+interface Sources {
+  files: SourceFile[];
+  // Archive directories, as path segments
+  directories: string[][];
+  // Archives that were not read, with the reason
+  skipped: string[];
+}
+
+export const IMPORT_ACCEPT = '.md,.markdown,.html,.htm,.txt,.zip';
+
+const NOTE_EXTENSIONS = ['md', 'markdown', 'html', 'htm', 'txt'];
+
+// Limits on what one archive may unpack to, so a zip bomb can't exhaust memory
+const MAX_ARCHIVE_ENTRIES = 10_000;
+const MAX_ARCHIVE_BYTES = 200 * 1024 * 1024;
+
+export const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp'
+};
+
+// Marks the title heading of exported HTML notes, which is dropped again on import
+export const NOTE_TITLE_ATTRIBUTE = 'data-note-title';
+
+// Loose files with no target folder go here, since notes can't live at the root
+const LOOSE_FILES_FOLDER = 'Imported';
+
+const extensionOf = (name: string) => name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+
+const baseName = (name: string) => name.replace(/\.[^.]+$/, '');
+
+// Archive clutter that shouldn't show up as notes or skipped files
+const isJunk = (path: string[]) =>
+  path[0] === '__MACOSX' || path.some(segment => segment.startsWith('.'));
+
+// Decompresses off the main thread. Sizes are the ones the archive declares,
+// and fflate inflates each entry into a buffer of exactly that size; once a
+// limit is passed the remaining entries are left compressed. Resolves to null
+// for archives over the limits.
+const unzipArchive = (data: Uint8Array): Promise<Unzipped | null> =>
+  new Promise((resolve, reject) => {
+    let entries = 0;
+    let bytes = 0;
+    let overLimit = false;
+    const filter = ({ originalSize }: { originalSize: number }) => {
+      entries++;
+      bytes += originalSize;
+      overLimit ||= entries > MAX_ARCHIVE_ENTRIES || bytes > MAX_ARCHIVE_BYTES;
+      return !overLimit;
+    };
+    unzip(data, { filter }, (error, files) => {
+      if (error) reject(error);
+      else resolve(overLimit ? null : files);
+    });
+  });
+
+const readSources = async (files: File[]): Promise<Sources> => {
+  const sources: Sources = { files: [], directories: [], skipped: [] };
+  for (const file of files) {
+    const data = new Uint8Array(await file.arrayBuffer());
+    if (extensionOf(file.name) !== 'zip') {
+      sources.files.push({ path: [file.name], data });
+      continue;
+    }
+    const entries = await unzipArchive(data);
+    if (!entries) {
+      sources.skipped.push(`${file.name} (archive too large, over ${MAX_ARCHIVE_ENTRIES} files or ${MAX_ARCHIVE_BYTES / 1024 / 1024} MB)`);
+      continue;
+    }
+    for (const [name, content] of Object.entries(entries)) {
+      const path = name.split('/').filter(Boolean);
+      if (!path.length || isJunk(path)) continue;
+      if (name.endsWith('/')) sources.directories.push(path);
+      else sources.files.push({ path, data: content });
+    }
+  }
+  return sources;
+};
+
+// Minimal YAML front-matter: `key: value` lines, values optionally JSON-quoted
+export const parseFrontMatter = (markdown: string): { meta: Record<string, string>; body: string } => {
+  const match = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/.exec(markdown);
+  if (!match) return { meta: {}, body: markdown };
+
+  const meta: Record<string, string> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    const field = /^([\w-]+):\s*(.*)$/.exec(line);
+    if (!field) continue;
+    let value = field[2].trim();
+    if (value.startsWith('"')) {
+      try {
+        value = JSON.parse(value);
+      } catch {
+        // Leave malformed quoting as written
+      }
+    }
+    meta[field[1]] = value;
+  }
+  return { meta, body: markdown.slice(match[0].length) };
+};
+
+const textToHtml = (text: string) =>
+  text.replace(/\r\n?/g, '\n').split(/\n\s*\n/)
+    .filter(paragraph => paragraph.trim())
+    .map(paragraph => `<p>${paragraph.split('\n').map(escapeHtml).join('<br>')}</p>`)
+    .join('');
+
+// Converts one document to note HTML, returning its title as well
+const convertNote = (source: SourceFile): { title: string; html: string } => {
+  const name = source.path[source.path.length - 1];
+  const text = strFromU8(source.data);
+
+  switch (extensionOf(name)) {
+    case 'md':
+    case 'markdown': {
+      const { meta, body } = parseFrontMatter(text);
+      return { title: meta.title || baseName(name), html: markdownToHtml(body) };
+    }
+    case 'html':
+    case 'htm': {
+      const doc = new DOMParser().parseFromString(text, 'text/html');
+      doc.querySelectorAll(`[${NOTE_TITLE_ATTRIBUTE}]`).forEach(heading => heading.remove());
+      return { title: doc.title.trim() || baseName(name), html: doc.body.innerHTML };
+    }
+    default:
+      return { title: baseName(name), html: textToHtml(text) };
+  }
+};
+
+// Resolves `src` against the note's directory; null for absolute and data URLs
+const resolveRelative = (directory: string[], src: string): string | null => {
+  if (/^([a-z][a-z0-9+.-]*:|\/\/|\/)/i.test(src)) return null;
+  const segments = [...directory];
+  let decoded = src.split(/[?#]/)[0];
+  try {
+    decoded = decodeURIComponent(decoded);
+  } catch {
+    // Keep the raw path
+  }
+  for (const segment of decoded.split('/')) {
+    if (segment === '..') segments.pop();
+    else if (segment && segment !== '.') segments.push(segment);
+  }
+  return segments.join('/');
+};
+
+// Points archive images at their uploaded copies; unresolved references are left as written
+const uploadImages = async (html: string, directory: string[], upload: (path: string) => Promise<string> | undefined) => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  let resolved = 0;
+  for (const img of Array.from(doc.querySelectorAll('img[src]'))) {
+    const path = resolveRelative(directory, img.getAttribute('src')!);
+    const url = path !== null ? upload(path) : undefined;
+    if (!url) continue;
+    img.setAttribute('src', await url);
+    resolved++;
+  }
+  return { html: doc.body.innerHTML, resolved };
+};
+
+export const importFiles = async (
+  repository: NodeRepository,
+  files: File[],
+  targetFolderId: string | null,
+  storage: ImageStorage = imageStorage
+): Promise<ImportSummary> => {
+  const sources = await readSources(files);
+  const summary: ImportSummary = { folders: 0, notes: 0, images: 0, skipped: [...sources.skipped], roots: [] };
+
+  const images = new Map<string, SourceFile>();
+  const notes: SourceFile[] = [];
+  for (const source of sources.files) {
+    const extension = extensionOf(source.path[source.path.length - 1]);
+    if (IMAGE_TYPES[extension]) images.set(source.path.join('/'), source);
+    else if (NOTE_EXTENSIONS.includes(extension)) notes.push(source);
+    else summary.skipped.push(`${source.path.join('/')} (unsupported file type)`);
+  }
+  notes.sort((a, b) => a.path.join('/').localeCompare(b.path.join('/')));
+
+  // Each archive image is uploaded once, however many notes use it
+  const uploads = new Map<string, Promise<string>>();
+  const upload = (path: string) => {
+    const image = images.get(path);
+    if (image && !uploads.has(path)) {
+      const type = IMAGE_TYPES[extensionOf(image.path[image.path.length - 1])];
+      uploads.set(path, storage.upload(new Blob([image.data], { type })));
+    }
+    return uploads.get(path);
+  };
+
+  // Folder ids by directory path, created on first use
+  const folders = new Map<string, string>();
+  const created = async (title: string, parentId: string | null) => {
+    const folder = await repository.create({ title, type: 'folder', parent_id: parentId });
+    summary.folders++;
+    if (parentId === targetFolderId) summary.roots.push(folder);
+    return folder.id;
+  };
+
+  const folderFor = async (directory: string[]): Promise<string> => {
+    const key = directory.join('/');
+    const existing = folders.get(key);
+    if (existing) return existing;
+
+    let id: string;
+    if (!directory.length) {
+      id = targetFolderId ?? await created(LOOSE_FILES_FOLDER, null);
+    } else {
+      const parent = directory.length > 1 ? await folderFor(directory.slice(0, -1)) : targetFolderId;
+      id = await created(directory[directory.length - 1], parent);
+    }
+    folders.set(key, id);
+    return id;
+  };
+
+  for (const source of notes) {
+    const directory = source.path.slice(0, -1);
+    try {
+      const { title, html } = convertNote(source);
+      const embedded = await uploadImages(html, directory, upload);
+      const parentId = await folderFor(directory);
+      const note = await repository.create({
+        title,
+        type: 'file',
+        parent_id: parentId,
+        content: sanitizeHtml(embedded.html)
+      });
+      summary.notes++;
+      summary.images += embedded.resolved;
+      if (parentId === targetFolderId) summary.roots.push(note);
+    } catch (error) {
+      console.error(`Error importing ${source.path.join('/')}:`, error);
+      summary.skipped.push(`${source.path.join('/')} (could not be imported)`);
+    }
+  }
+
+  // Directories with nothing at all inside still become (empty) folders
+  const occupied = (directory: string[]) => sources.files.some(file =>
+    directory.every((segment, index) => file.path[index] === segment) && file.path.length > directory.length);
+  for (const directory of sources.directories.filter(directory => !occupied(directory))) {
+    await folderFor(directory);
+  }
+  return summary;
+};
@@ -0,0 +1,133 @@
+import { NodeRecord } from '../types';
+
+// IndexedDB replica of the `nodes` table plus the outbox of pending writes.
+const DB_NAME = 'monotext';
+const DB_VERSION = 1;
+const NODES = 'nodes';
+const OUTBOX = 'outbox';
+
+export type OutboxOp = 'insert' | 'update' | 'delete';
+
+export interface OutboxEntry {
+  seq?: number;
+  op: OutboxOp;
+  nodeId: string;
+  payload?: Partial<NodeRecord>;
+  // For updates: the row's updated_at before this edit; the push only applies
+  // if the remote row is still at that revision
+  baseUpdatedAt?: string;
+  queuedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(NODES)) {
+          db.createObjectStore(NODES, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(OUTBOX)) {
+          db.createObjectStore(OUTBOX, { keyPath: 'seq', autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const asPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const runTransaction = async (
+  stores: string[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => void
+): Promise<void> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(stores, mode);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+    work(tx);
+  });
+};
+
+export const getAllLocalNodes = async (): Promise<NodeRecord[]> => {
+  const db = await openDb();
+  return asPromise(db.transaction(NODES).objectStore(NODES).getAll());
+};
+
+export const getLocalNode = async (id: string): Promise<NodeRecord | undefined> => {
+  const db = await openDb();
+  return asPromise(db.transaction(NODES).objectStore(NODES).get(id));
+};
+
+export const putLocalNodes = (nodes: NodeRecord[]) =>
+  runTransaction([NODES], 'readwrite', (tx) => {
+    const store = tx.objectStore(NODES);
+    nodes.forEach(node => store.put(node));
+  });
+
+export const removeLocalNodes = (ids: string[]) =>
+  runTransaction([NODES], 'readwrite', (tx) => {
+    const store = tx.objectStore(NODES);
+    ids.forEach(id => store.delete(id));
+  });
+
+// Writes the local rows and queues the matching outbox entries atomically,
+// so a crash between the two can never lose an edit. Entries replay in order.
+export const writeWithOutbox = (
+  entries: Omit<OutboxEntry, 'seq' | 'queuedAt'>[],
+  put: NodeRecord[],
+  remove: string[] = []
+) =>
+  runTransaction([NODES, OUTBOX], 'readwrite', (tx) => {
+    const nodes = tx.objectStore(NODES);
+    const outbox = tx.objectStore(OUTBOX);
+    put.forEach(node => nodes.put(node));
+    remove.forEach(id => nodes.delete(id));
+    entries.forEach(entry => outbox.add({ ...entry, queuedAt: Date.now() }));
+  });
+
+export const getOutbox = async (): Promise<OutboxEntry[]> => {
+  const db = await openDb();
+  return asPromise(db.transaction(OUTBOX).objectStore(OUTBOX).getAll());
+};
+
+// Swaps queued entries for new ones, together with the local rows they write
+export const replaceOutboxEntries = (
+  seqs: number[],
+  entries: Omit<OutboxEntry, 'seq' | 'queuedAt'>[],
+  put: NodeRecord[]
+) =>
+  runTransaction([NODES, OUTBOX], 'readwrite', (tx) => {
+    const nodes = tx.objectStore(NODES);
+    const outbox = tx.objectStore(OUTBOX);
+    seqs.forEach(seq => outbox.delete(seq));
+    put.forEach(node => nodes.put(node));
+    entries.forEach(entry => outbox.add({ ...entry, queuedAt: Date.now() }));
+  });
+
+export const removeOutboxEntry = (seq: number) =>
+  runTransaction([OUTBOX], 'readwrite', (tx) => {
+    tx.objectStore(OUTBOX).delete(seq);
+  });
+
+export const clearLocalStore = () =>
+  runTransaction([NODES, OUTBOX], 'readwrite', (tx) => {
+    tx.objectStore(NODES).clear();
+    tx.objectStore(OUTBOX).clear();
+  });
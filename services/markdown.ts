@@ -0,0 +1,281 @@
+import { Doc, Inline, Mark, escapeHtml, mathSource, parseHtml, sortMarks, sameMark } from './documentModel';
+
+// Markdown <-> document model. Serializing from the model rather than from
+// HTML keeps math as $...$ source, and anything Markdown has no syntax for
+// (image widths, underline, fonts, highlights) is written as inline HTML, so
+// converting back yields the same document.
+
+// ---------------------------------------------------------------------------
+// Document -> Markdown
+
+const EMPHASIS: Mark['type'][] = ['bold', 'italic', 'strike', 'code'];
+
+const escapeMarkdown = (text: string) =>
+  text.replace(/[\\`*_~[\]$<]/g, '\\$&').replace(/!(?=\\\[)/g, '\\!');
+
+// Block markers at the start of a line would otherwise change the block type
+const escapeLineStart = (markdown: string) =>
+  markdown.replace(/^(#{1,6}\s|>|[-+*]\s|\d+[.)]\s)/, '\\$1');
+
+// Emphasis can't open or close on whitespace, so edge spaces move outside the marks
+const detachEdgeSpaces = (content: Inline[]): Inline[] => content.flatMap(inline => {
+  if (inline.type !== 'text' || !inline.marks.some(mark => EMPHASIS.includes(mark.type))) return [inline];
+  const [, lead, body, trail] = /^(\s*)([\s\S]*?)(\s*)$/.exec(inline.text)!;
+  const plainMarks = inline.marks.filter(mark => !EMPHASIS.includes(mark.type));
+  return [
+    ...(lead ? [{ type: 'text' as const, text: lead, marks: plainMarks }] : []),
+    ...(body ? [{ ...inline, text: body }] : []),
+    ...(trail ? [{ type: 'text' as const, text: trail, marks: plainMarks }] : [])
+  ];
+});
+
+const markDelimiters = (mark: Mark, previous: string, inline: Inline): [string, string] => {
+  switch (mark.type) {
+    case 'bold': return ['**', '**'];
+    // `_` inside a word isn't emphasis, so fall back to HTML there
+    case 'italic': return /\w$/.test(previous) ? ['<em>', '</em>'] : ['_', '_'];
+    case 'strike': return ['~~', '~~'];
+    // A backtick inside would end a code span early
+    case 'code': return inline.type === 'text' && inline.text.includes('`') ? ['<code>', '</code>'] : ['`', '`'];
+    case 'underline': return ['<u>', '</u>'];
+    case 'sub': return ['<sub>', '</sub>'];
+    case 'sup': return ['<sup>', '</sup>'];
+    case 'highlight': return ['<mark>', '</mark>'];
+    case 'link': return ['[', `](${mark.href.replace(/[()\s]/g, encodeURIComponent)})`];
+    case 'font': return [`<span style="font-family: ${escapeHtml(mark.family)}">`, '</span>'];
+  }
+};
+
+const atomMarkdown = (inline: Exclude<Inline, { type: 'text' }>) => {
+  switch (inline.type) {
+    case 'math': return mathSource(inline);
+    case 'break': return '<br>';
+    case 'image': {
+      if (!inline.width && !/[()\s]/.test(inline.src)) return `![${escapeMarkdown(inline.alt || '')}](${inline.src})`;
+      const alt = inline.alt ? ` alt="${escapeHtml(inline.alt)}"` : '';
+      const style = inline.width ? ` style="width: ${escapeHtml(inline.width)}; height: auto;"` : '';
+      return `<img src="${escapeHtml(inline.src)}"${alt}${style}>`;
+    }
+  }
+};
+
+const contentMarkdown = (content: Inline[]) => {
+  let markdown = '';
+  const open: { mark: Mark; close: string }[] = [];
+
+  for (const inline of detachEdgeSpaces(content)) {
+    const wanted = sortMarks(inline.marks);
+    let keep = 0;
+    while (keep < open.length && keep < wanted.length && sameMark(open[keep].mark, wanted[keep])) keep++;
+    while (open.length > keep) markdown += open.pop()!.close;
+    for (const mark of wanted.slice(keep)) {
+      const [opening, close] = markDelimiters(mark, markdown, inline);
+      markdown += opening;
+      open.push({ mark, close });
+    }
+
+    if (inline.type !== 'text') {
+      markdown += atomMarkdown(inline);
+    } else if (open.some(entry => entry.close === '`')) {
+      markdown += inline.text;
+    } else {
+      markdown += escapeMarkdown(inline.text.replace(/\n/g, ' '));
+    }
+  }
+  while (open.length) markdown += open.pop()!.close;
+  return markdown;
+};
+
+export const docToMarkdown = (doc: Doc): string => {
+  let markdown = '';
+  let number = 0;
+
+  doc.blocks.forEach((block, index) => {
+    const previous = doc.blocks[index - 1];
+    const continuesList = block.type === 'listItem' && previous?.type === 'listItem' && previous.ordered === block.ordered;
+    if (index > 0) markdown += continuesList ? '\n' : '\n\n';
+
+    const text = escapeLineStart(contentMarkdown(block.content));
+    switch (block.type) {
+      case 'heading':
+        markdown += `${'#'.repeat(block.level)} ${text}`;
+        break;
+      case 'quote':
+        markdown += `> ${text}`;
+        break;
+      case 'listItem':
+        number = continuesList ? number + 1 : 1;
+        markdown += `${block.ordered ? `${number}.` : '-'} ${text}`;
+        break;
+      default:
+        // An empty paragraph still needs to survive as a block
+        markdown += text || '<br>';
+    }
+  });
+  return markdown + '\n';
+};
+
+// ---------------------------------------------------------------------------
+// Markdown -> HTML -> document
+
+const decodeHref = (href: string) => {
+  try {
+    return decodeURIComponent(href);
+  } catch {
+    return href;
+  }
+};
+
+const mathHtml = (tex: string, display: boolean) =>
+  `<span data-math="${display ? 'display' : 'inline'}" data-tex="${escapeHtml(tex)}">${escapeHtml(mathSource({ tex, display }))}</span>`;
+
+// Ordered by precedence; each rule matches at the start of the remaining text
+const INLINE_RULES: [RegExp, (match: RegExpExecArray, previous: string) => string | null][] = [
+  [/^\\([\\`*_{}[\]()#+\-.!~$<>|])/, m => escapeHtml(m[1])],
+  [/^(`+)([\s\S]*?[^`])\1(?!`)/, m => `<code>${escapeHtml(m[2])}</code>`],
+  [/^\$\$([^$]+?)\$\$/, m => mathHtml(m[1], true)],
+  [/^\$([^$]+?)\$/, m => mathHtml(m[1], false)],
+  [/^!\[([^\]]*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/, m => `<img src="${escapeHtml(m[2])}" alt="${escapeHtml(m[1])}">`],
+  [/^\[([^\]]+)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/, m => `<a href="${escapeHtml(decodeHref(m[2]))}">${renderInline(m[1])}</a>`],
+  [/^<\/?[a-zA-Z][^<>]*>/, m => m[0]],
+  [/^(\*\*|__)(?=\S)([\s\S]*?\S)\1/, m => `<strong>${renderInline(m[2])}</strong>`],
+  [/^\*(?=\S)([\s\S]*?\S)\*/, m => `<em>${renderInline(m[1])}</em>`],
+  [/^_(?=\S)([\s\S]*?\S)_(?!\w)/, (m, previous) => /\w$/.test(previous) ? null : `<em>${renderInline(m[1])}</em>`],
+  [/^(~~?)(?=\S)([\s\S]*?\S)\1/, m => `<s>${renderInline(m[2])}</s>`],
+  // Hard line breaks: two trailing spaces or a backslash
+  [/^(?: {2,}|\\)\n/, () => '<br>'],
+  [/^\n/, () => ' ']
+];
+
+const renderInline = (text: string): string => {
+  let html = '';
+  let index = 0;
+
+  while (index < text.length) {
+    const rest = text.slice(index);
+    let consumed = 0;
+    for (const [pattern, render] of INLINE_RULES) {
+      const match = pattern.exec(rest);
+      const rendered = match && render(match, text.slice(0, index));
+      if (match && rendered !== null) {
+        html += rendered;
+        consumed = match[0].length;
+        break;
+      }
+    }
+    if (!consumed) {
+      html += escapeHtml(text[index]);
+      consumed = 1;
+    }
+    index += consumed;
+  }
+  return html;
+};
+
+const LIST_ITEM = /^\s*(?:([-+*])|(\d+)[.)])\s+(.*)$/;
+
+export const markdownToHtml = (markdown: string): string => {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const html: string[] = [];
+  let paragraph: string[] = [];
+  let list: { ordered: boolean; items: string[] } | null = null;
+  let quote: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length) html.push(`<p>${renderInline(paragraph.join('\n'))}</p>`);
+    paragraph = [];
+  };
+  const flushList = () => {
+    if (list) {
+      const tag = list.ordered ? 'ol' : 'ul';
+      html.push(`<${tag}>${list.items.map(item => `<li>${renderInline(item)}</li>`).join('')}</${tag}>`);
+    }
+    list = null;
+  };
+  const flushQuote = () => {
+    if (quote.length) {
+      const paragraphs = quote.join('\n').split(/\n\s*\n/).map(text => text.trim()).filter(Boolean);
+      html.push(`<blockquote>${paragraphs.map(text => `<p>${renderInline(text)}</p>`).join('')}</blockquote>`);
+    }
+    quote = [];
+  };
+  const flushAll = () => {
+    flushParagraph();
+    flushList();
+    flushQuote();
+  };
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+
+    // Fenced code keeps its lines verbatim
+    const fence = /^\s*(```|~~~)/.exec(line);
+    if (fence) {
+      flushAll();
+      const code: string[] = [];
+      for (index++; index < lines.length && !lines[index].trim().startsWith(fence[1]); index++) code.push(lines[index]);
+      html.push(`<p><code>${code.map(escapeHtml).join('<br>')}</code></p>`);
+      continue;
+    }
+
+    // $$ on its own line opens a display formula that may span lines
+    if (line.trim() === '$$') {
+      flushAll();
+      const tex: string[] = [];
+      for (index++; index < lines.length && lines[index].trim() !== '$$'; index++) tex.push(lines[index]);
+      html.push(`<p>${mathHtml(tex.join('\n'), true)}</p>`);
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushParagraph();
+      flushList();
+      if (quote.length) quote.push('');
+      continue;
+    }
+
+    const quoted = /^\s*>\s?(.*)$/.exec(line);
+    if (quoted) {
+      flushParagraph();
+      flushList();
+      quote.push(quoted[1]);
+      continue;
+    }
+    flushQuote();
+
+    const heading = /^\s*(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/.exec(line);
+    if (heading) {
+      flushAll();
+      html.push(`<h${heading[1].length}>${renderInline(heading[2])}</h${heading[1].length}>`);
+      continue;
+    }
+
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      flushAll();
+      continue;
+    }
+
+    const item = LIST_ITEM.exec(line);
+    if (item) {
+      flushParagraph();
+      const ordered = item[2] !== undefined;
+      if (list && list.ordered !== ordered) flushList();
+      if (!list) list = { ordered, items: [] };
+      list.items.push(item[3]);
+      continue;
+    }
+
+    // Lazy continuation of the previous list item
+    if (list && /^\s+/.test(line)) {
+      list.items[list.items.length - 1] += `\n${line.trim()}`;
+      continue;
+    }
+
+    flushList();
+    paragraph.push(line);
+  }
+  flushAll();
+  return html.join('');
+};
+
+export const markdownToDoc = (markdown: string): Doc => parseHtml(markdownToHtml(markdown));
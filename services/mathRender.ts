@@ -0,0 +1,21 @@
+import katex from 'katex';
+
+// KaTeX rendering for math nodes. Parse errors are shown in place, with the
+// source and KaTeX's message, rather than thrown.
+
+// Stylesheet for standalone exports, pinned to the bundled KaTeX so it matches
+// the markup renderMathHtml produces
+export const KATEX_STYLESHEET = `https://cdn.jsdelivr.net/npm/katex@${katex.version}/dist/katex.min.css`;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const renderMathHtml = (tex: string, display: boolean) => {
+  try {
+    return katex.renderToString(tex.trim(), { displayMode: display, throwOnError: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message.replace(/^KaTeX parse error: /, '') : 'Invalid LaTeX';
+    const source = display ? `$$${tex}$$` : `$${tex}$`;
+    return `<span class="math-error" title="${escapeHtml(message)}">${escapeHtml(source)}<span class="math-error-message">${escapeHtml(message)}</span></span>`;
+  }
+};
@@ -0,0 +1,144 @@
+import { v4 as uuidv4 } from 'uuid';
+import { NodeRecord, NodeRevision } from '../types';
+import {
+  assertCanMove,
+  assertRevision,
+  collectLiveSubtree,
+  collectSubtree,
+  expiredTrash,
+  planDuplicate,
+  restoreTargets,
+  trashedNodes,
+  newNodeRecord,
+  NodeRepository,
+  sortNodes,
+  visibleNodes
+} from './nodeRepository';
+
+// In-memory repository for tests and for running the UI without Supabase.
+export const createMemoryNodeRepository = (seed: NodeRecord[] = []): NodeRepository => {
+  const nodes = new Map(seed.map(node => [node.id, { ...node }]));
+  const revisions: NodeRevision[] = [];
+  const listeners = new Set<() => void>();
+
+  const all = () => Array.from(nodes.values());
+  const notify = () => listeners.forEach(listener => listener());
+
+  // Mirrors the `node_revisions` trigger: one snapshot per file save
+  const snapshot = (node: NodeRecord) => {
+    if (node.type !== 'file') return;
+    revisions.push({
+      id: uuidv4(),
+      node_id: node.id,
+      title: node.title,
+      content: node.content,
+      created_at: node.updated_at
+    });
+  };
+
+  const repository: NodeRepository = {
+    async get(id) {
+      const node = nodes.get(id);
+      return node && { ...node };
+    },
+
+    async list(type) {
+      return sortNodes(visibleNodes(all()).filter(n => !type || n.type === type)).map(n => ({ ...n }));
+    },
+
+    async listChildren(parentId, type) {
+      return (await repository.list(type)).filter(n => n.parent_id === parentId);
+    },
+
+    async listSubtree(rootId) {
+      return collectLiveSubtree(all(), rootId).map(n => ({ ...n }));
+    },
+
+    async create(input) {
+      const node = newNodeRecord(uuidv4(), input);
+      nodes.set(node.id, node);
+      snapshot(node);
+      notify();
+      return { ...node };
+    },
+
+    async update(id, patch, options) {
+      const existing = nodes.get(id);
+      if (!existing) throw new Error(`Node ${id} not found`);
+      assertRevision(existing, options);
+
+      const node = { ...existing, ...patch, updated_at: new Date().toISOString() };
+      nodes.set(id, node);
+      if (node.title !== existing.title || node.content !== existing.content) snapshot(node);
+      notify();
+      return { ...node };
+    },
+
+    async move(id, parentId) {
+      assertCanMove(all(), id, parentId);
+      return repository.update(id, { parent_id: parentId });
+    },
+
+    async duplicate(id) {
+      const copies = planDuplicate(collectLiveSubtree(all(), id), uuidv4);
+      if (!copies.length) throw new Error(`Node ${id} not found`);
+
+      copies.forEach(node => {
+        nodes.set(node.id, node);
+        snapshot(node);
+      });
+      notify();
+      return { ...copies[0] };
+    },
+
+    async trash(id) {
+      await repository.update(id, { trashed_at: new Date().toISOString() });
+    },
+
+    async restore(id) {
+      for (const node of restoreTargets(all(), id)) {
+        await repository.update(node.id, { trashed_at: null });
+      }
+    },
+
+    async listTrash() {
+      return trashedNodes(all()).map(n => ({ ...n }));
+    },
+
+    async purgeTrash(retentionDays) {
+      const expired = expiredTrash(all(), retentionDays);
+      for (const node of expired) await repository.remove(node.id);
+      return expired.length;
+    },
+
+    async remove(id) {
+      collectSubtree(all(), id).forEach(node => nodes.delete(node.id));
+      notify();
+    },
+
+    async listRevisions(nodeId) {
+      return revisions
+        .filter(r => r.node_id === nodeId)
+        .reverse()
+        .map(r => ({ ...r }));
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+
+    // A single in-memory copy never conflicts with itself
+    subscribeConflicts() {
+      return () => {};
+    },
+
+    async resolveConflict(id) {
+      const node = nodes.get(id);
+      if (!node) throw new Error(`Node ${id} not found`);
+      return { ...node };
+    }
+  };
+
+  return repository;
+};
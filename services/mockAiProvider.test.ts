@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { createMockAiProvider } from './mockAiProvider';
+import { FormatSection } from './aiProvider';
+
+const context = { before: '', after: '' };
+
+describe('createMockAiProvider', () => {
+  it('answers deterministically, sized by length', async () => {
+    const ai = createMockAiProvider();
+    const short = await ai.generateContent('entropy', context, 'short');
+    expect(short).toBe('<p>Mock sentence 1 about entropy.</p>');
+    expect(await ai.generateContent('entropy', context, 'short')).toBe(short);
+    expect((await ai.generateContent('entropy', context, 'medium')).match(/Mock sentence/g)).toHaveLength(3);
+  });
+
+  it('escapes the query', async () => {
+    const html = await createMockAiProvider().generateContent('<img src=x onerror=alert(1)>', context, 'short');
+    expect(html).not.toContain('<img');
+  });
+
+  it('streams partial answers that build up to the result', async () => {
+    const partials: string[] = [];
+    const result = await createMockAiProvider().generateContent('gravity', context, 'short', {
+      onPartial: html => partials.push(html)
+    });
+    expect(partials.length).toBeGreaterThan(1);
+    expect(partials[0]).toBe('<p>Mock </p>');
+    expect(partials[partials.length - 1]).toBe(result);
+  });
+
+  it('rejects with an AbortError when cancelled', async () => {
+    const controller = new AbortController();
+    const pending = createMockAiProvider().generateContent('gravity', context, 'long', { signal: controller.signal });
+    controller.abort();
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('formats section by section, reporting progress', async () => {
+    const reports: FormatSection[][] = [];
+    const html = '<p>Intro</p><h1>First</h1><p>One</p><h2>Second</h2><p>Two</p>';
+    const result = await createMockAiProvider().formatText(html, { onProgress: sections => reports.push(sections) });
+
+    expect(result).toBe(html);
+    expect(reports[0].map(section => section.title)).toEqual(['Introduction', 'First', 'Second']);
+    expect(reports[0].map(section => section.status)).toEqual(['formatting', 'pending', 'pending']);
+    expect(reports[reports.length - 1].every(section => section.status === 'done' && section.received > 0)).toBe(true);
+  });
+
+  it('wraps LaTeX once', async () => {
+    const ai = createMockAiProvider();
+    expect(await ai.generateLatex(' x^2 ')).toBe('$x^2$');
+    expect(await ai.generateLatex('$x^2$')).toBe('$x^2$');
+  });
+
+  it('suggests topics not already present', async () => {
+    expect(await createMockAiProvider().suggestTopics(['Research'])).toEqual(['Projects', 'Reference']);
+  });
+});
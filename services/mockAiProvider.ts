@@ -0,0 +1,68 @@
+import { AiProvider, FormatSection } from './aiProvider';
+import { escapeHtml, splitSections } from './documentModel';
+import { sanitizeHtml } from './sanitizer';
+
+// Deterministic stand-in for tests and offline development: the same input
+// always gives the same output, with no network access. Streaming is
+// simulated a word at a time so the progress UI can be exercised.
+
+const STREAM_DELAY_MS = 30;
+
+const pause = (signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+  const timer = setTimeout(resolve, STREAM_DELAY_MS);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  }, { once: true });
+});
+
+// Passes `text` to `onDelta` in word-sized pieces
+const streamWords = async (text: string, onDelta: (delta: string) => void, signal?: AbortSignal) => {
+  for (const word of text.match(/\S+\s*/g) || []) {
+    await pause(signal);
+    onDelta(word);
+  }
+};
+
+export const createMockAiProvider = (): AiProvider => ({
+  async formatText(html, options) {
+    const sections = splitSections(html);
+    const progress: FormatSection[] = sections.map(section => ({ title: section.title, status: 'pending', received: 0 }));
+    const report = () => options?.onProgress?.(progress.map(section => ({ ...section })));
+
+    for (const [index, section] of sections.entries()) {
+      progress[index].status = 'formatting';
+      report();
+      await streamWords(section.html, delta => {
+        progress[index].received += delta.length;
+        report();
+      }, options?.signal);
+      progress[index].status = 'done';
+      report();
+    }
+    return sanitizeHtml(html);
+  },
+
+  async generateContent(query, _context, length, options) {
+    const sentences = { short: 1, medium: 3, long: 6 }[length];
+    const text = Array.from({ length: sentences }, (_, index) => `Mock sentence ${index + 1} about ${query}.`).join(' ');
+    if (options?.onPartial || options?.signal) {
+      let streamed = '';
+      await streamWords(text, delta => {
+        streamed += delta;
+        options.onPartial?.(sanitizeHtml(`<p>${escapeHtml(streamed)}</p>`));
+      }, options.signal);
+    }
+    return sanitizeHtml(`<p>${escapeHtml(text)}</p>`);
+  },
+
+  async generateLatex(text) {
+    const trimmed = text.trim();
+    return /^\$.*\$$/s.test(trimmed) ? trimmed : `$${trimmed}$`;
+  },
+
+  async suggestTopics(existingTopics) {
+    return ['Research', 'Projects', 'Reference'].filter(topic => !existingTopics.includes(topic));
+  }
+});
@@ -0,0 +1,172 @@
+import { NodeRecord, NodeRevision, NodeType, Note } from '../types';
+
+// Typed access to the `nodes` tree. Components only talk to this interface,
+// so the backing store (IndexedDB + Supabase sync, or memory) is swappable.
+
+export interface NewNode {
+  title: string;
+  type: NodeType;
+  parent_id: string | null;
+  content?: string;
+}
+
+export type NodePatch = Partial<Pick<NodeRecord, 'title' | 'content' | 'parent_id' | 'trashed_at'>>;
+
+export interface UpdateOptions {
+  // Revision (updated_at in ms) the caller last saw; the write is refused if the row moved on
+  expectedUpdatedAt?: number;
+}
+
+export class NodeConflictError extends Error {
+  constructor(public readonly current: NodeRecord) {
+    super(`Node ${current.id} was changed elsewhere`);
+    this.name = 'NodeConflictError';
+  }
+}
+
+export interface NodeRepository {
+  get(id: string): Promise<NodeRecord | undefined>;
+  // Listings skip trashed nodes and everything beneath them
+  list(type?: NodeType): Promise<NodeRecord[]>;
+  listChildren(parentId: string | null, type?: NodeType): Promise<NodeRecord[]>;
+  // The node itself followed by all of its untrashed descendants, parents before children
+  listSubtree(rootId: string): Promise<NodeRecord[]>;
+  create(input: NewNode): Promise<NodeRecord>;
+  update(id: string, patch: NodePatch, options?: UpdateOptions): Promise<NodeRecord>;
+  move(id: string, parentId: string | null): Promise<NodeRecord>;
+  // Copies the node and all of its descendants next to the original
+  duplicate(id: string): Promise<NodeRecord>;
+  // Soft delete: moves the node (and so its subtree) to the Trash
+  trash(id: string): Promise<void>;
+  // Takes the node, and any trashed folders above it, back out of the Trash
+  restore(id: string): Promise<void>;
+  // Trashed nodes, most recently trashed first
+  listTrash(): Promise<NodeRecord[]>;
+  // Permanently deletes trash older than the retention period; returns how many items were purged
+  purgeTrash(retentionDays: number): Promise<number>;
+  // Permanently deletes the node together with all of its descendants
+  remove(id: string): Promise<void>;
+  // Saved snapshots of a file, newest first
+  listRevisions(nodeId: string): Promise<NodeRevision[]>;
+  // Called whenever any node changes; returns an unsubscribe function
+  subscribe(listener: () => void): () => void;
+  // Called with the other version of each node whose local edits conflict
+  // with a change made elsewhere, current and future; returns an unsubscribe function
+  subscribeConflicts(listener: (theirs: NodeRecord) => void): () => void;
+  // Settles such a conflict, keeping the local edits or the other version
+  resolveConflict(id: string, keep: 'mine' | 'theirs'): Promise<NodeRecord>;
+}
+
+export const byCreatedAt = (a: NodeRecord, b: NodeRecord) =>
+  new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+
+// Folders oldest first, files newest first, matching how the UI lists them
+export const sortNodes = (nodes: NodeRecord[]) =>
+  [...nodes].sort((a, b) => a.type === 'file' && b.type === 'file' ? byCreatedAt(b, a) : byCreatedAt(a, b));
+
+export const collectSubtree = (nodes: NodeRecord[], rootId: string): NodeRecord[] => {
+  const root = nodes.find(n => n.id === rootId);
+  if (!root) return [];
+
+  const result: NodeRecord[] = [root];
+  for (let i = 0; i < result.length; i++) {
+    const parentId = result[i].id;
+    result.push(...sortNodes(nodes.filter(n => n.parent_id === parentId)));
+  }
+  return result;
+};
+
+export const visibleNodes = (nodes: NodeRecord[]): NodeRecord[] => {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const isVisible = (node: NodeRecord): boolean => {
+    for (let current: NodeRecord | undefined = node; current; current = byId.get(current.parent_id ?? '')) {
+      if (current.trashed_at) return false;
+    }
+    return true;
+  };
+  return nodes.filter(isVisible);
+};
+
+// The root plus its untrashed descendants
+export const collectLiveSubtree = (nodes: NodeRecord[], rootId: string) =>
+  collectSubtree(nodes.filter(n => n.id === rootId || !n.trashed_at), rootId);
+
+export const trashedNodes = (nodes: NodeRecord[]) =>
+  nodes
+    .filter(n => n.trashed_at)
+    .sort((a, b) => new Date(b.trashed_at!).getTime() - new Date(a.trashed_at!).getTime());
+
+export const expiredTrash = (nodes: NodeRecord[], retentionDays: number) => {
+  const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+  return trashedNodes(nodes).filter(n => new Date(n.trashed_at!).getTime() < cutoff);
+};
+
+// The node and every trashed ancestor, which all need clearing for it to show up again
+export const restoreTargets = (nodes: NodeRecord[], id: string): NodeRecord[] => {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const targets: NodeRecord[] = [];
+  for (let current = byId.get(id); current; current = byId.get(current.parent_id ?? '')) {
+    if (current.trashed_at) targets.push(current);
+  }
+  return targets;
+};
+
+export const assertCanMove = (nodes: NodeRecord[], id: string, parentId: string | null) => {
+  const node = nodes.find(n => n.id === id);
+  if (!node) throw new Error(`Node ${id} not found`);
+  if (parentId === null) {
+    if (node.type === 'file') throw new Error('Notes must be inside a folder');
+    return;
+  }
+  const parent = nodes.find(n => n.id === parentId);
+  if (!parent) throw new Error(`Target folder ${parentId} not found`);
+  if (parent.type !== 'folder') throw new Error('Notes can only be moved into folders');
+  if (collectSubtree(nodes, id).some(n => n.id === parentId)) {
+    throw new Error('A folder cannot be moved into itself or one of its subfolders');
+  }
+};
+
+// Fresh records for a copy of `subtree` (as returned by collectSubtree), parents first
+export const planDuplicate = (subtree: NodeRecord[], newId: () => string): NodeRecord[] => {
+  const idMap = new Map(subtree.map(node => [node.id, newId()]));
+  const now = new Date().toISOString();
+
+  return subtree.map((node, index) => ({
+    ...node,
+    id: idMap.get(node.id)!,
+    parent_id: index === 0 ? node.parent_id : idMap.get(node.parent_id!)!,
+    title: index === 0 ? `${node.title} (copy)` : node.title,
+    created_at: now,
+    updated_at: now
+  }));
+};
+
+export const revisionOf = (node: NodeRecord) => new Date(node.updated_at || node.created_at).getTime();
+
+export const assertRevision = (node: NodeRecord, options?: UpdateOptions) => {
+  if (options?.expectedUpdatedAt !== undefined && revisionOf(node) !== options.expectedUpdatedAt) {
+    throw new NodeConflictError(node);
+  }
+};
+
+export const newNodeRecord = (id: string, input: NewNode): NodeRecord => {
+  const now = new Date().toISOString();
+  return {
+    id,
+    created_at: now,
+    updated_at: now,
+    parent_id: input.parent_id,
+    title: input.title,
+    content: input.content ?? '',
+    type: input.type
+  };
+};
+
+export const toNote = (node: NodeRecord): Note => ({
+  id: node.id,
+  title: node.title,
+  content: node.content || '',
+  parentId: node.parent_id,
+  createdAt: new Date(node.created_at).getTime(),
+  updatedAt: revisionOf(node)
+});
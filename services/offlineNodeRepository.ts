@@ -0,0 +1,147 @@
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from '../src/lib/supabase';
+import { NodeRecord, NodeRevision, NodeType } from '../types';
+import { getAllLocalNodes, getLocalNode, writeWithOutbox } from './localStore';
+import { fetchRemoteNode, notifyNodeChanges, requestSync, resolveSyncConflict, subscribeNodeChanges, subscribeSyncConflicts } from './syncService';
+import {
+  assertCanMove,
+  assertRevision,
+  collectLiveSubtree,
+  collectSubtree,
+  expiredTrash,
+  planDuplicate,
+  restoreTargets,
+  trashedNodes,
+  NewNode,
+  newNodeRecord,
+  NodePatch,
+  NodeRepository,
+  sortNodes,
+  UpdateOptions,
+  visibleNodes
+} from './nodeRepository';
+
+// Local-first repository. Every write lands in IndexedDB immediately and is
+// replayed to Supabase by the sync service.
+
+const afterWrite = () => {
+  notifyNodeChanges();
+  requestSync();
+};
+
+const get = async (id: string): Promise<NodeRecord | undefined> => {
+  return (await getLocalNode(id)) || fetchRemoteNode(id);
+};
+
+const list = async (type?: NodeType): Promise<NodeRecord[]> => {
+  const nodes = visibleNodes(await getAllLocalNodes());
+  return sortNodes(type ? nodes.filter(n => n.type === type) : nodes);
+};
+
+const listChildren = async (parentId: string | null, type?: NodeType): Promise<NodeRecord[]> => {
+  const nodes = await list(type);
+  return nodes.filter(n => n.parent_id === parentId);
+};
+
+const listSubtree = async (rootId: string): Promise<NodeRecord[]> => {
+  return collectLiveSubtree(await getAllLocalNodes(), rootId);
+};
+
+const create = async (input: NewNode): Promise<NodeRecord> => {
+  const node = newNodeRecord(uuidv4(), input);
+  await writeWithOutbox([{ op: 'insert', nodeId: node.id, payload: node }], [node]);
+  afterWrite();
+  return node;
+};
+
+const update = async (id: string, patch: NodePatch, options?: UpdateOptions): Promise<NodeRecord> => {
+  const existing = await get(id);
+  if (!existing) throw new Error(`Node ${id} not found`);
+  assertRevision(existing, options);
+
+  const updated_at = new Date().toISOString();
+  const node: NodeRecord = { ...existing, ...patch, updated_at };
+
+  await writeWithOutbox([{ op: 'update', nodeId: id, payload: { ...patch, updated_at }, baseUpdatedAt: existing.updated_at }], [node]);
+  afterWrite();
+  return node;
+};
+
+const move = async (id: string, parentId: string | null): Promise<NodeRecord> => {
+  assertCanMove(await getAllLocalNodes(), id, parentId);
+  return update(id, { parent_id: parentId });
+};
+
+const duplicate = async (id: string): Promise<NodeRecord> => {
+  const copies = planDuplicate(await listSubtree(id), uuidv4);
+  if (!copies.length) throw new Error(`Node ${id} not found`);
+
+  await writeWithOutbox(copies.map(node => ({ op: 'insert' as const, nodeId: node.id, payload: node })), copies);
+  afterWrite();
+  return copies[0];
+};
+
+const trash = async (id: string): Promise<void> => {
+  await update(id, { trashed_at: new Date().toISOString() });
+};
+
+const restore = async (id: string): Promise<void> => {
+  for (const node of restoreTargets(await getAllLocalNodes(), id)) {
+    await update(node.id, { trashed_at: null });
+  }
+};
+
+const listTrash = async (): Promise<NodeRecord[]> => {
+  return trashedNodes(await getAllLocalNodes());
+};
+
+const purgeTrash = async (retentionDays: number): Promise<number> => {
+  const expired = expiredTrash(await getAllLocalNodes(), retentionDays);
+  for (const node of expired) await remove(node.id);
+  return expired.length;
+};
+
+const remove = async (id: string): Promise<void> => {
+  // Children are deleted before their parents so the replay never trips the parent_id foreign key
+  const ids = collectSubtree(await getAllLocalNodes(), id).map(n => n.id).reverse();
+  // Already gone, e.g. a purged child whose parent was deleted first
+  if (!ids.length) return;
+
+  await writeWithOutbox(ids.map(nodeId => ({ op: 'delete' as const, nodeId })), [], ids);
+  afterWrite();
+};
+
+// Snapshots are written by a database trigger as the outbox replays, so
+// history is read straight from Supabase
+const listRevisions = async (nodeId: string): Promise<NodeRevision[]> => {
+  if (!navigator.onLine) throw new Error('Version history is only available online');
+
+  const { data, error } = await supabase
+    .from('node_revisions')
+    .select('*')
+    .eq('node_id', nodeId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as NodeRevision[];
+};
+
+export const offlineNodeRepository: NodeRepository = {
+  get,
+  list,
+  listChildren,
+  listSubtree,
+  create,
+  update,
+  move,
+  duplicate,
+  trash,
+  restore,
+  listTrash,
+  purgeTrash,
+  remove,
+  listRevisions,
+  subscribe: subscribeNodeChanges,
+  subscribeConflicts: subscribeSyncConflicts,
+  resolveConflict: resolveSyncConflict
+};
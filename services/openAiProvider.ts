@@ -0,0 +1,52 @@
+import { TextCompletion } from './aiProvider';
+import { AiRequestError } from './aiRequests';
+
+// Any server speaking the OpenAI chat completions API: OpenAI itself, or a
+// local one such as Ollama, LM Studio or llama.cpp. Local servers usually
+// need no key; otherwise it's the user's own, entered in Settings, since
+// anything from the build environment would ship in the bundle.
+// JSON mode is left to the prompt: `json_object` mode can't return the bare
+// arrays some prompts ask for.
+export const createOpenAiCompletion = (baseUrl: string, model: string, apiKey = ''): TextCompletion => async (prompt, options) => {
+  const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+    },
+    body: JSON.stringify({
+      model,
+      messages: [{ role: 'user', content: prompt }],
+      stream: !!options?.onDelta
+    }),
+    signal: options?.signal
+  });
+
+  if (!response.ok) {
+    const retryAfter = Number(response.headers.get('Retry-After')) * 1000 || undefined;
+    throw new AiRequestError(`AI server responded with ${response.status}: ${await response.text()}`, response.status, retryAfter);
+  }
+  if (!options?.onDelta) {
+    const data = await response.json();
+    return data.choices?.[0]?.message?.content || '';
+  }
+
+  // Streamed responses are server-sent events, one `data: {json}` line per chunk
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let text = '';
+  let pending = '';
+  for (let read = await reader.read(); !read.done; read = await reader.read()) {
+    const lines = (pending + read.value).split('\n');
+    pending = lines.pop() || '';
+    for (const line of lines) {
+      const data = line.replace(/^data:\s*/, '').trim();
+      if (!line.startsWith('data:') || data === '[DONE]') continue;
+      const delta: string = JSON.parse(data).choices?.[0]?.delta?.content || '';
+      if (delta) {
+        text += delta;
+        options.onDelta(delta);
+      }
+    }
+  }
+  return text;
+};
@@ -0,0 +1,138 @@
+import { escapeHtml, parseHtml, renderStaticDoc } from './documentModel';
+import { sanitizeDoc } from './sanitizer';
+
+// PDF export through the browser's print engine. The note is laid out as a
+// paged document in a hidden iframe, so text stays selectable text and math
+// is typeset by KaTeX, and "Save as PDF" writes the file. Headers and footers
+// use CSS page margin boxes, which Chromium-based browsers support.
+
+export type PageSize = 'a4' | 'letter';
+
+export interface PdfOptions {
+  pageSize: PageSize;
+  // Page margin on every side, in millimetres
+  margin: number;
+  titlePage: boolean;
+  tableOfContents: boolean;
+  headerFooter: boolean;
+}
+
+export const DEFAULT_PDF_OPTIONS: PdfOptions = {
+  pageSize: 'a4',
+  margin: 20,
+  titlePage: false,
+  tableOfContents: false,
+  headerFooter: true
+};
+
+const PDF_OPTIONS_KEY = 'monotext-pdf-options';
+
+export const loadPdfOptions = (): PdfOptions => {
+  try {
+    const stored = localStorage.getItem(PDF_OPTIONS_KEY);
+    return stored ? { ...DEFAULT_PDF_OPTIONS, ...JSON.parse(stored) } : DEFAULT_PDF_OPTIONS;
+  } catch (error) {
+    console.error('Error loading PDF options:', error);
+    return DEFAULT_PDF_OPTIONS;
+  }
+};
+
+export const savePdfOptions = (options: PdfOptions) =>
+  localStorage.setItem(PDF_OPTIONS_KEY, JSON.stringify(options));
+
+// Content strings inside @page rules are CSS, not HTML
+const cssString = (text: string) => `"${text.replace(/["\\]/g, '\\$&').replace(/\n/g, ' ')}"`;
+
+const pageCss = (title: string, options: PdfOptions) => {
+  const margin = `${options.margin}mm`;
+  const marginBoxes = options.headerFooter ? `
+    @top-center { content: ${cssString(title)}; font-size: 9pt; color: #666; }
+    @bottom-center { content: "Page " counter(page) " of " counter(pages); font-size: 9pt; color: #666; }` : '';
+
+  return `
+  @page { size: ${options.pageSize === 'a4' ? 'A4' : 'letter'}; margin: ${margin};${marginBoxes}
+  }
+  ${options.titlePage ? '@page :first { @top-center { content: none; } @bottom-center { content: none; } }' : ''}
+  html, body { margin: 0; padding: 0; background: white; }
+  body { font-family: Georgia, 'Times New Roman', serif; font-size: 11pt; line-height: 1.5; color: #111; }
+  h1, h2, h3 { break-after: avoid; font-family: system-ui, sans-serif; }
+  img, .math-display { break-inside: avoid; }
+  img { max-width: 100%; }
+  .pdf-title-page { height: 100vh; display: flex; flex-direction: column; justify-content: center; text-align: center; break-after: page; }
+  .pdf-title-page h1 { font-size: 28pt; margin: 0 0 12pt; }
+  .pdf-title-page p { color: #666; margin: 0; }
+  .pdf-toc { break-after: page; }
+  .pdf-toc ol { list-style: none; padding: 0; }
+  .pdf-toc li { margin: 4pt 0; }
+  .pdf-toc .pdf-toc-h2 { padding-left: 16pt; }
+  .pdf-toc a { color: inherit; text-decoration: none; }
+  .math-node { cursor: auto; }
+  `;
+};
+
+// Full paged HTML document for the note
+export const buildPrintDocument = (title: string, html: string, options: PdfOptions, stylesheets = '') => {
+  const body = new DOMParser().parseFromString(renderStaticDoc(sanitizeDoc(parseHtml(html))), 'text/html').body;
+
+  const headings = Array.from(body.querySelectorAll<HTMLElement>('h1, h2'));
+  headings.forEach((heading, index) => { heading.id = `section-${index + 1}`; });
+
+  const titlePage = options.titlePage
+    ? `<section class="pdf-title-page"><h1>${escapeHtml(title)}</h1><p>${escapeHtml(new Date().toLocaleDateString())}</p></section>`
+    : `<h1>${escapeHtml(title)}</h1>`;
+
+  const toc = options.tableOfContents && headings.length
+    ? `<nav class="pdf-toc"><h2>Contents</h2><ol>${headings.map(heading =>
+        `<li class="pdf-toc-${heading.tagName.toLowerCase()}"><a href="#${heading.id}">${escapeHtml(heading.textContent || '')}</a></li>`
+      ).join('')}</ol></nav>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+${stylesheets}
+<style>${pageCss(title, options)}</style>
+</head>
+<body>
+${titlePage}
+${toc}
+<main class="editor-content">${body.innerHTML}</main>
+</body>
+</html>`;
+};
+
+const whenLoaded = (image: HTMLImageElement) => image.complete
+  ? Promise.resolve()
+  : new Promise<void>(resolve => { image.onload = image.onerror = () => resolve(); });
+
+// Prints the note from a hidden frame; the browser's dialog saves it as PDF
+export const exportPdf = async (title: string, html: string, options: PdfOptions) => {
+  // The app's own styles carry the KaTeX CSS and fonts as bundled
+  const stylesheets = Array.from(document.querySelectorAll('link[rel="stylesheet"], style'))
+    .map(element => element.outerHTML)
+    .join('\n');
+
+  const frame = document.createElement('iframe');
+  frame.style.cssText = 'position: fixed; right: 0; bottom: 0; width: 0; height: 0; border: 0;';
+  document.body.appendChild(frame);
+
+  try {
+    const frameDoc = frame.contentDocument!;
+    frameDoc.open();
+    frameDoc.write(buildPrintDocument(title, html, options, stylesheets));
+    frameDoc.close();
+
+    await Promise.all(Array.from(frameDoc.images).map(whenLoaded));
+    await frameDoc.fonts.ready;
+
+    const printWindow = frame.contentWindow!;
+    printWindow.addEventListener('afterprint', () => frame.remove(), { once: true });
+    printWindow.focus();
+    printWindow.print();
+  } catch (error) {
+    frame.remove();
+    throw error;
+  }
+};
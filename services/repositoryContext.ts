@@ -0,0 +1,9 @@
+import { createContext, useContext } from 'react';
+import { NodeRepository } from './nodeRepository';
+import { offlineNodeRepository } from './offlineNodeRepository';
+
+// Defaults to the synced IndexedDB store; wrap the tree in a provider with
+// `createMemoryNodeRepository()` to run the UI without Supabase.
+export const NodeRepositoryContext = createContext<NodeRepository>(offlineNodeRepository);
+
+export const useNodeRepository = () => useContext(NodeRepositoryContext);
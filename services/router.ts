@@ -0,0 +1,56 @@
+import { useEffect, useState } from 'react';
+
+// Hash routes, so folders and notes have shareable URLs that survive reloads
+// and work with browser back/forward:
+//   #/              no folder selected
+//   #/folder/:id    a folder's note list
+//   #/note/:id      a note in the editor
+export type Route =
+  | { name: 'home' }
+  | { name: 'folder'; id: string }
+  | { name: 'note'; id: string };
+
+// Null for malformed escapes such as a truncated `%E0`
+const decodeSegment = (segment: string) => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+};
+
+// Unknown or malformed hashes fall back to home
+export const parseHash = (hash: string): Route => {
+  const [, kind, segment] = hash.replace(/^#/, '').split('/');
+  const id = segment ? decodeSegment(segment) : null;
+  if (kind === 'folder' && id) return { name: 'folder', id };
+  if (kind === 'note' && id) return { name: 'note', id };
+  return { name: 'home' };
+};
+
+export const formatRoute = (route: Route): string =>
+  route.name === 'home' ? '#/' : `#/${route.name}/${encodeURIComponent(route.id)}`;
+
+export const navigate = (route: Route, { replace = false } = {}) => {
+  const hash = formatRoute(route);
+  if (window.location.hash === hash) return;
+  if (replace) {
+    window.history.replaceState(null, '', hash);
+    // replaceState doesn't fire hashchange, so let listeners know ourselves
+    window.dispatchEvent(new HashChangeEvent('hashchange'));
+  } else {
+    window.location.hash = hash;
+  }
+};
+
+export const useRoute = (): Route => {
+  const [route, setRoute] = useState(() => parseHash(window.location.hash));
+
+  useEffect(() => {
+    const handleHashChange = () => setRoute(parseHash(window.location.hash));
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  return route;
+};
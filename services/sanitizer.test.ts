@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { sanitizeHtml, sanitizeUrl } from './sanitizer';
+
+describe('sanitizeHtml', () => {
+  it('drops script and style elements with their contents', () => {
+    expect(sanitizeHtml('<script>alert(1)</script><p>hi</p><style>p { color: red }</style>')).toBe('<p>hi</p>');
+  });
+
+  it('drops event handler attributes', () => {
+    const html = sanitizeHtml('<p onclick="alert(1)" onmouseover="alert(2)">hi<img src="a.png" onerror="alert(3)"></p>');
+    expect(html).toBe('<p>hi<img src="a.png"></p>');
+    expect(html).not.toMatch(/\son\w+=/);
+  });
+
+  it('drops embedding elements', () => {
+    expect(sanitizeHtml('<iframe src="https://example.com"></iframe><object data="x.swf"></object><embed src="x.swf"><p>ok</p>')).toBe('<p>ok</p>');
+  });
+
+  it('removes javascript: links but keeps their text', () => {
+    expect(sanitizeHtml('<a href="javascript:alert(1)">x</a>')).toBe('<p>x</p>');
+    expect(sanitizeHtml('<a href="JavaScript:alert(1)">x</a>')).toBe('<p>x</p>');
+    expect(sanitizeHtml('<a href="java\tscript:alert(1)">x</a>')).toBe('<p>x</p>');
+    expect(sanitizeHtml('<a href="&#106;avascript:alert(1)">x</a>')).toBe('<p>x</p>');
+    expect(sanitizeHtml('<a href=" javascript:alert(1)">x</a>')).toBe('<p>x</p>');
+  });
+
+  it('keeps safe links', () => {
+    expect(sanitizeHtml('<a href="https://example.com">x</a>')).toBe('<p><a href="https://example.com">x</a></p>');
+  });
+
+  it('removes images with script or non-image data URLs', () => {
+    expect(sanitizeHtml('<p><img src="javascript:alert(1)"></p>')).toBe('<p></p>');
+    expect(sanitizeHtml('<p><img src="data:text/html;base64,PHNjcmlwdD4="></p>')).toBe('<p></p>');
+    expect(sanitizeHtml('<p><img src="data:image/svg+xml;base64,PHN2Zz4="></p>')).toBe('<p></p>');
+  });
+
+  it('keeps raster data URL images', () => {
+    expect(sanitizeHtml('<p><img src="data:image/png;base64,AAAA"></p>')).toBe('<p><img src="data:image/png;base64,AAAA"></p>');
+  });
+
+  it('drops inline SVG payloads', () => {
+    const html = sanitizeHtml('<svg onload="alert(1)"><script>alert(2)</script><a xlink:href="javascript:alert(3)"><text>label</text></a></svg>');
+    expect(html).not.toMatch(/svg|script|alert|javascript|onload/i);
+  });
+
+  it('drops unsafe CSS', () => {
+    expect(sanitizeHtml('<span style="font-family: Arial; background: url(javascript:alert(1))">s</span>'))
+      .toBe('<p><span style="font-family: Arial">s</span></p>');
+    expect(sanitizeHtml('<p><img src="a.png" style="width: expression(alert(1))"></p>')).toBe('<p><img src="a.png"></p>');
+  });
+});
+
+describe('sanitizeUrl', () => {
+  it('allows relative URLs', () => {
+    expect(sanitizeUrl('notes/a.png', 'image')).toBe('notes/a.png');
+    expect(sanitizeUrl('#section', 'link')).toBe('#section');
+  });
+
+  it('rejects script and data URLs as links', () => {
+    expect(sanitizeUrl('javascript:alert(1)', 'link')).toBeNull();
+    expect(sanitizeUrl('vbscript:msgbox(1)', 'link')).toBeNull();
+    expect(sanitizeUrl('data:text/html,<script>alert(1)</script>', 'link')).toBeNull();
+    expect(sanitizeUrl('data:image/png;base64,AAAA', 'link')).toBeNull();
+  });
+
+  it('allows mailto and tel links', () => {
+    expect(sanitizeUrl('mailto:a@example.com', 'link')).toBe('mailto:a@example.com');
+    expect(sanitizeUrl('tel:+123', 'link')).toBe('tel:+123');
+  });
+});
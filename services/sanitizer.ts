@@ -0,0 +1,59 @@
+import { Doc, Inline, Mark, parseHtml, serializeDoc } from './documentModel';
+
+// The one sanitizer for note HTML, applied when content is loaded, saved,
+// pasted or returned by the AI. Parsing into the document model is the
+// allow-list: only the editor's schema (paragraphs, headings, lists, quotes,
+// emphasis marks, links, images and math spans) survives, so scripts, event
+// handlers and unknown tags or attributes are dropped by construction. What
+// remains to check are the values the schema carries: URLs and CSS.
+
+const LINK_SCHEMES = ['http', 'https', 'mailto', 'tel'];
+const IMAGE_SCHEMES = ['http', 'https'];
+// Raster formats only: SVG is a document that can carry scripts, and is
+// harmless in an <img> only until someone opens it on its own
+const DATA_IMAGE = /^data:image\/(png|jpe?g|gif|webp);/i;
+
+const SAFE_FONT_FAMILY = /^[\w\s,'"-]+$/;
+const SAFE_WIDTH = /^\d+(\.\d+)?(px|%|em|rem)$/;
+
+// Browsers ignore whitespace and control characters inside a scheme, so
+// `java\tscript:` must be caught as well
+export const sanitizeUrl = (url: string, kind: 'link' | 'image'): string | null => {
+  const trimmed = url.trim();
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(trimmed.replace(/[\u0000- ]/g, ''));
+  if (!scheme) return trimmed; // relative
+  const name = scheme[1].toLowerCase();
+  if (kind === 'image' && name === 'data') return DATA_IMAGE.test(trimmed) ? trimmed : null;
+  return (kind === 'link' ? LINK_SCHEMES : IMAGE_SCHEMES).includes(name) ? trimmed : null;
+};
+
+const sanitizeMark = (mark: Mark): Mark | null => {
+  switch (mark.type) {
+    case 'link': {
+      const href = sanitizeUrl(mark.href, 'link');
+      return href ? { ...mark, href } : null;
+    }
+    case 'font': return SAFE_FONT_FAMILY.test(mark.family) ? mark : null;
+    default: return mark;
+  }
+};
+
+const sanitizeInline = (inline: Inline): Inline | null => {
+  const marks = inline.marks.map(sanitizeMark).filter((mark): mark is Mark => mark !== null);
+  if (inline.type !== 'image') return { ...inline, marks };
+
+  const src = sanitizeUrl(inline.src, 'image');
+  if (!src) return null;
+  const width = inline.width && SAFE_WIDTH.test(inline.width) ? inline.width : undefined;
+  return { ...inline, src, width, marks };
+};
+
+export const sanitizeDoc = (doc: Doc): Doc => ({
+  blocks: doc.blocks.map(block => ({
+    ...block,
+    content: block.content.map(sanitizeInline).filter((inline): inline is Inline => inline !== null)
+  }))
+});
+
+// Any HTML to the canonical stored form, with nothing outside the schema
+export const sanitizeHtml = (html: string): string => serializeDoc(sanitizeDoc(parseHtml(html)));
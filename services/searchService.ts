@@ -0,0 +1,90 @@
+import { NodeRecord } from '../types';
+
+// Full-text search over notes. Runs against whatever the repository returns,
+// which for the offline repository is the local replica, so it works offline.
+
+export interface SearchResult {
+  note: NodeRecord;
+  // Folder titles from the root down to the note's folder
+  path: string[];
+  titleMatch: boolean;
+  snippet: { before: string; match: string; after: string } | null;
+}
+
+const SNIPPET_RADIUS = 60;
+const MAX_RESULTS = 50;
+
+export const htmlToText = (html: string) => {
+  // Keep block boundaries as spaces so words from adjacent paragraphs don't merge
+  const spaced = html.replace(/<\/(p|h[1-6]|li|div|blockquote)>|<br\s*\/?>/gi, ' $&');
+  // DOMParser documents are inert: no image loads or inline handlers fire
+  const body = new DOMParser().parseFromString(spaced, 'text/html').body;
+  return (body.textContent || '').replace(/\s+/g, ' ').trim();
+};
+
+export const folderPath = (nodes: NodeRecord[], node: NodeRecord): string[] => {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const path: string[] = [];
+  for (let parent = byId.get(node.parent_id ?? ''); parent; parent = byId.get(parent.parent_id ?? '')) {
+    path.unshift(parent.title);
+  }
+  return path;
+};
+
+const makeSnippet = (text: string, index: number, length: number) => {
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + length + SNIPPET_RADIUS);
+  return {
+    before: (start > 0 ? '…' : '') + text.slice(start, index),
+    match: text.slice(index, index + length),
+    after: text.slice(index + length, end) + (end < text.length ? '…' : '')
+  };
+};
+
+// A note's plain text, extracted once so typing a query doesn't re-parse every note
+export interface SearchEntry {
+  note: NodeRecord;
+  text: string;
+  lowerText: string;
+  lowerTitle: string;
+}
+
+export interface SearchIndex {
+  // Every node, so result paths can be resolved
+  nodes: NodeRecord[];
+  entries: SearchEntry[];
+}
+
+// `nodes` should include the folders so result paths can be resolved
+export const buildSearchIndex = (nodes: NodeRecord[]): SearchIndex => ({
+  nodes,
+  entries: nodes.filter(note => note.type === 'file').map(note => {
+    const text = htmlToText(note.content || '');
+    return { note, text, lowerText: text.toLowerCase(), lowerTitle: note.title.toLowerCase() };
+  })
+});
+
+export const searchNotes = (index: SearchIndex, query: string): SearchResult[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+
+  const results: SearchResult[] = [];
+  for (const { note, text, lowerText, lowerTitle } of index.entries) {
+    const titleMatch = lowerTitle.includes(needle);
+    const at = lowerText.indexOf(needle);
+    if (!titleMatch && at === -1) continue;
+
+    results.push({
+      note,
+      path: folderPath(index.nodes, note),
+      titleMatch,
+      snippet: at === -1 ? null : makeSnippet(text, at, needle.length)
+    });
+  }
+
+  // Title hits first, then most recently edited
+  return results
+    .sort((a, b) => Number(b.titleMatch) - Number(a.titleMatch)
+      || new Date(b.note.updated_at).getTime() - new Date(a.note.updated_at).getTime())
+    .slice(0, MAX_RESULTS);
+};
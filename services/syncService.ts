@@ -0,0 +1,266 @@
+import { supabase } from '../src/lib/supabase';
+import { NodeRecord, SyncState } from '../types';
+import {
+  clearLocalStore,
+  getAllLocalNodes,
+  getLocalNode,
+  getOutbox,
+  OutboxEntry,
+  putLocalNodes,
+  removeLocalNodes,
+  removeOutboxEntry,
+  replaceOutboxEntries
+} from './localStore';
+import { NodeConflictError } from './nodeRepository';
+
+type StatusListener = (state: SyncState, pending: number) => void;
+type ChangeListener = () => void;
+type ConflictListener = (theirs: NodeRecord) => void;
+
+const SYNC_DEBOUNCE_MS = 1000;
+const REPLICA_OWNER_KEY = 'monotext-replica-owner';
+
+let state: SyncState = typeof navigator !== 'undefined' && !navigator.onLine ? 'offline' : 'idle';
+let pending = 0;
+let running: Promise<void> | null = null;
+let scheduled: ReturnType<typeof setTimeout> | null = null;
+
+const statusListeners = new Set<StatusListener>();
+const changeListeners = new Set<ChangeListener>();
+const conflictListeners = new Set<ConflictListener>();
+
+// Remote rows that moved on under a queued local edit, by node id. The node's
+// outbox entries wait until the user picks a version.
+const conflicts = new Map<string, NodeRecord>();
+
+const setStatus = (next: SyncState, nextPending = pending) => {
+  state = next;
+  pending = nextPending;
+  statusListeners.forEach(listener => listener(state, pending));
+};
+
+export const subscribeSyncStatus = (listener: StatusListener) => {
+  statusListeners.add(listener);
+  listener(state, pending);
+  return () => { statusListeners.delete(listener); };
+};
+
+// Fired whenever the local replica changes, either from a local write or a pull.
+export const subscribeNodeChanges = (listener: ChangeListener) => {
+  changeListeners.add(listener);
+  return () => { changeListeners.delete(listener); };
+};
+
+export const notifyNodeChanges = () => {
+  changeListeners.forEach(listener => listener());
+};
+
+// Called with every unresolved conflict now and each new one as it's found
+export const subscribeSyncConflicts = (listener: ConflictListener) => {
+  conflictListeners.add(listener);
+  conflicts.forEach(theirs => listener(theirs));
+  return () => { conflictListeners.delete(listener); };
+};
+
+// Postgrest errors carry a code; network failures don't and should be retried
+const isRejected = (error: unknown) =>
+  typeof error === 'object' && error !== null && !!(error as { code?: string }).code;
+
+const pushEntry = async (entry: OutboxEntry): Promise<boolean> => {
+  switch (entry.op) {
+    case 'insert': {
+      const { error } = await supabase.from('nodes').upsert(entry.payload);
+      if (error) throw error;
+      return false;
+    }
+    case 'update': {
+      const { data: remote, error: fetchError } = await supabase
+        .from('nodes')
+        .select('*')
+        .eq('id', entry.nodeId)
+        .maybeSingle();
+      if (fetchError) throw fetchError;
+
+      // Deleted on another device: drop the local copy instead of resurrecting it
+      if (!remote) {
+        await removeLocalNodes([entry.nodeId]);
+        return true;
+      }
+
+      // Entries queued before base revisions were recorded apply unconditionally
+      let query = supabase.from('nodes').update(entry.payload).eq('id', entry.nodeId);
+      if (entry.baseUpdatedAt) query = query.eq('updated_at', entry.baseUpdatedAt);
+      const { data: updated, error } = await query.select('id');
+      if (error) throw error;
+
+      // The row changed since this edit was made; neither side wins silently
+      if (!updated?.length) throw new NodeConflictError(remote as NodeRecord);
+      return false;
+    }
+    case 'delete': {
+      const { error } = await supabase.from('nodes').delete().eq('id', entry.nodeId);
+      if (error) throw error;
+      return false;
+    }
+  }
+};
+
+const pushOutbox = async (): Promise<boolean> => {
+  let changed = false;
+  const outbox = await getOutbox();
+  setStatus('syncing', outbox.length);
+
+  for (const entry of outbox) {
+    // Held back until the user resolves the conflict
+    if (conflicts.has(entry.nodeId)) continue;
+    try {
+      changed = (await pushEntry(entry)) || changed;
+    } catch (error) {
+      if (error instanceof NodeConflictError) {
+        conflicts.set(entry.nodeId, error.current);
+        conflictListeners.forEach(listener => listener(error.current));
+        continue;
+      }
+      if (!isRejected(error)) throw error;
+      // The server refused the write; drop it and let the pull restore the remote row
+      console.error(`Sync rejected ${entry.op} of node ${entry.nodeId}:`, error);
+      changed = true;
+    }
+    await removeOutboxEntry(entry.seq!);
+    setStatus('syncing', pending - 1);
+  }
+  return changed;
+};
+
+const pullRemote = async (): Promise<boolean> => {
+  const { data, error } = await supabase.from('nodes').select('*');
+  if (error) throw error;
+
+  const remoteNodes = (data || []) as NodeRecord[];
+  const localNodes = await getAllLocalNodes();
+  const outbox = await getOutbox();
+  const pendingIds = new Set(outbox.map(entry => entry.nodeId));
+  const localById = new Map(localNodes.map(node => [node.id, node]));
+  const remoteIds = new Set(remoteNodes.map(node => node.id));
+
+  const toPut = remoteNodes.filter(remote => {
+    const local = localById.get(remote.id);
+    if (!local) return true;
+    // Queued edits are pushed, or end up in a conflict, before the remote row is taken
+    if (pendingIds.has(remote.id)) return false;
+    // Postgres answers `+00:00` where clients write `Z`, so compare instants
+    return Date.parse(local.updated_at) !== Date.parse(remote.updated_at);
+  });
+  const toRemove = localNodes
+    .filter(local => !remoteIds.has(local.id) && !pendingIds.has(local.id))
+    .map(local => local.id);
+
+  if (toPut.length) await putLocalNodes(toPut);
+  if (toRemove.length) await removeLocalNodes(toRemove);
+  return toPut.length > 0 || toRemove.length > 0;
+};
+
+const runSync = async () => {
+  if (!navigator.onLine) {
+    setStatus('offline', (await getOutbox()).length);
+    return;
+  }
+
+  try {
+    const pushed = await pushOutbox();
+    const pulled = await pullRemote();
+    setStatus('idle', (await getOutbox()).length);
+    if (pushed || pulled) notifyNodeChanges();
+  } catch (error) {
+    console.error('Error syncing nodes:', error);
+    setStatus(navigator.onLine ? 'error' : 'offline', (await getOutbox()).length);
+  }
+};
+
+export const syncNow = (): Promise<void> => {
+  if (!running) {
+    running = runSync().finally(() => { running = null; });
+  }
+  return running;
+};
+
+// Coalesces bursts of local writes into a single sync round-trip
+export const requestSync = () => {
+  if (scheduled) clearTimeout(scheduled);
+  scheduled = setTimeout(() => {
+    scheduled = null;
+    getOutbox().then(outbox => setStatus(state, outbox.length));
+    syncNow();
+  }, SYNC_DEBOUNCE_MS);
+};
+
+// Settles a conflict: 'mine' queues the local row on top of the remote
+// version, 'theirs' drops the queued edits and takes the remote row
+export const resolveSyncConflict = async (id: string, keep: 'mine' | 'theirs'): Promise<NodeRecord> => {
+  const theirs = conflicts.get(id);
+  const local = await getLocalNode(id);
+  if (!theirs || !local) throw new Error(`Node ${id} has no sync conflict`);
+
+  const queued = (await getOutbox()).filter(entry => entry.nodeId === id).map(entry => entry.seq!);
+  let kept = theirs;
+  if (keep === 'theirs') {
+    await replaceOutboxEntries(queued, [], [theirs]);
+  } else {
+    const { title, content, parent_id, trashed_at } = local;
+    kept = { ...local, updated_at: new Date().toISOString() };
+    await replaceOutboxEntries(queued, [{
+      op: 'update',
+      nodeId: id,
+      payload: { title, content, parent_id, trashed_at, updated_at: kept.updated_at },
+      baseUpdatedAt: theirs.updated_at
+    }], [kept]);
+  }
+
+  conflicts.delete(id);
+  notifyNodeChanges();
+  requestSync();
+  return kept;
+};
+
+// Fetches a single row straight from Supabase when the replica doesn't have it yet
+export const fetchRemoteNode = async (id: string): Promise<NodeRecord | undefined> => {
+  if (!navigator.onLine) return undefined;
+  const { data, error } = await supabase.from('nodes').select('*').eq('id', id).maybeSingle();
+  if (error || !data) return undefined;
+  const local = await getLocalNode(id);
+  if (!local) await putLocalNodes([data as NodeRecord]);
+  return local || (data as NodeRecord);
+};
+
+// The replica and outbox belong to one account. Signing out, or in as someone
+// else, empties them so nobody sees or pushes another user's notes. A replica
+// with no recorded owner predates this check and is kept.
+export const claimReplica = async (userId: string | null) => {
+  const owner = localStorage.getItem(REPLICA_OWNER_KEY);
+  if (owner === userId || (owner === null && userId)) {
+    if (userId) localStorage.setItem(REPLICA_OWNER_KEY, userId);
+    return;
+  }
+
+  if (running) await running;
+  await clearLocalStore();
+  conflicts.clear();
+  if (userId) localStorage.setItem(REPLICA_OWNER_KEY, userId);
+  else localStorage.removeItem(REPLICA_OWNER_KEY);
+  setStatus(state, 0);
+  notifyNodeChanges();
+};
+
+export const startSync = () => {
+  const handleOnline = () => syncNow();
+  const handleOffline = () => setStatus('offline');
+
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', handleOffline);
+  syncNow();
+
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    window.removeEventListener('offline', handleOffline);
+  };
+};
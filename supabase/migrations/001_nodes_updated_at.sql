@@ -0,0 +1,9 @@
+-- updated_at is the row's revision: offline sync only applies a queued update
+-- while the row is still at the updated_at the edit was based on, and reports
+-- a conflict for the user to settle otherwise.
+-- Clients send their own updated_at on every write so queued edits keep
+-- the time they were made, not the time they reached the server.
+alter table public.nodes
+  add column if not exists updated_at timestamptz not null default now();
+
+update public.nodes set updated_at = created_at where updated_at > created_at;
@@ -0,0 +1,44 @@
+-- Version history: every insert or title/content change of a `file` node
+-- stores a snapshot. Written by trigger so replayed offline saves are
+-- captured too.
+create table if not exists public.node_revisions (
+  id uuid primary key default gen_random_uuid(),
+  node_id uuid not null references public.nodes (id) on delete cascade,
+  owner_id uuid not null,
+  title text not null default '',
+  content text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists node_revisions_node_id_created_at_idx
+  on public.node_revisions (node_id, created_at desc);
+
+alter table public.node_revisions enable row level security;
+
+create policy "Owners can read their revisions"
+  on public.node_revisions for select
+  using (owner_id = auth.uid());
+
+create or replace function public.snapshot_node_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.type = 'file' and (
+    tg_op = 'INSERT'
+    or new.title is distinct from old.title
+    or new.content is distinct from old.content
+  ) then
+    insert into public.node_revisions (node_id, owner_id, title, content, created_at)
+    values (new.id, new.owner_id, new.title, new.content, coalesce(new.updated_at, now()));
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists nodes_snapshot_revision on public.nodes;
+create trigger nodes_snapshot_revision
+  after insert or update on public.nodes
+  for each row execute function public.snapshot_node_revision();
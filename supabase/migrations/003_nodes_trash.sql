@@ -0,0 +1,8 @@
+-- Soft delete: trashed nodes keep their parent_id so they can be restored in
+-- place. Descendants of a trashed folder are hidden by the client, not flagged.
+alter table public.nodes
+  add column if not exists trashed_at timestamptz;
+
+create index if not exists nodes_trashed_at_idx
+  on public.nodes (trashed_at)
+  where trashed_at is not null;
@@ -0,0 +1,14 @@
+-- Object storage for note images, which notes reference by URL instead of
+-- embedding as data URLs. Objects live under `<owner id>/`; the bucket is
+-- public so image URLs work in exports and shared HTML.
+insert into storage.buckets (id, name, public)
+values ('note-images', 'note-images', true)
+on conflict (id) do nothing;
+
+create policy "Owners can upload note images"
+  on storage.objects for insert
+  with check (bucket_id = 'note-images' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Owners can delete their note images"
+  on storage.objects for delete
+  using (bucket_id = 'note-images' and (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,39 @@
+-- Daily AI request counts per user, for the quota enforced by the AI proxy.
+-- Counts only change through consume_ai_quota(), which the proxy calls as
+-- the signed-in user before forwarding each request, and refund_ai_quota()
+-- (006) for requests that aren't served.
+create table if not exists public.ai_usage (
+  owner_id uuid not null,
+  day date not null default current_date,
+  requests integer not null default 0,
+  primary key (owner_id, day)
+);
+
+alter table public.ai_usage enable row level security;
+
+create policy "Owners can read their AI usage"
+  on public.ai_usage for select
+  using (owner_id = auth.uid());
+
+-- Counts one request for the caller and returns today's total
+create or replace function public.consume_ai_quota()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  used integer;
+begin
+  if auth.uid() is null then
+    raise exception 'not authenticated';
+  end if;
+
+  insert into public.ai_usage (owner_id, day, requests)
+  values (auth.uid(), current_date, 1)
+  on conflict (owner_id, day) do update set requests = ai_usage.requests + 1
+  returning requests into used;
+
+  return used;
+end;
+$$;
@@ -0,0 +1,18 @@
+-- Gives back a request counted by consume_ai_quota() when it was not served,
+-- so rejected, failed and retried requests don't use up the daily quota.
+create or replace function public.refund_ai_quota()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'not authenticated';
+  end if;
+
+  update public.ai_usage
+  set requests = greatest(requests - 1, 0)
+  where owner_id = auth.uid() and day = current_date;
+end;
+$$;
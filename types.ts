@@ -1,36 +1,52 @@
+export type NodeType = 'folder' | 'file';
 
-export interface Note {
+// Row shape of the Supabase `nodes` table, mirrored locally in IndexedDB
+export interface NodeRecord {
   id: string;
+  created_at: string;
+  updated_at: string;
+  owner_id?: string;
+  parent_id: string | null;
   title: string;
-  content: string; // HTML string
-  subTopicId: string;
-  updatedAt: number;
+  content: string | null;
+  type: NodeType;
+  // Set while the node sits in the Trash; parent_id is kept so it can be restored in place
+  trashed_at?: string | null;
 }
 
-export interface SubTopic {
+// Snapshot of a `file` node, written on every save (table `node_revisions`)
+export interface NodeRevision {
   id: string;
-  name: string;
-  topicId: string;
+  node_id: string;
+  title: string;
+  content: string | null;
+  created_at: string;
 }
 
-export interface Topic {
+// A `file` node as the editor sees it
+export interface Note {
   id: string;
-  name: string;
-  subTopics: SubTopic[];
+  title: string;
+  content: string; // HTML string
+  parentId: string | null;
+  createdAt: number;
+  updatedAt: number;
 }
 
+export type AiProviderKind = 'gemini' | 'openai' | 'mock';
+
 export interface EditorSettings {
   h1Size: number;
   h2Size: number;
   pSize: number;
+  trashRetentionDays: number;
+  aiProvider: AiProviderKind;
+  // Empty uses the provider's default model
+  aiModel: string;
+  // Endpoint of an OpenAI-compatible server
+  aiBaseUrl: string;
+  // The user's own key for that server, kept in this browser only
+  aiApiKey: string;
 }
 
-export type ViewState = 'topic_list' | 'note_list' | 'editor';
-
-export interface AppState {
-  topics: Topic[];
-  notes: Note[];
-  selectedTopicId: string | null;
-  selectedSubTopicId: string | null;
-  selectedNoteId: string | null;
-}
+export type SyncState = 'idle' | 'syncing' | 'offline' | 'error';
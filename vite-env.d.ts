@@ -1,7 +1,9 @@
 /// <reference types="vite/client" />
 
 interface ImportMetaEnv {
-    readonly VITE_GEMINI_API_KEY: string
+    readonly VITE_AI_PROXY_URL?: string
+    readonly VITE_IMAGE_STORAGE?: 'supabase' | 'vercel' | 'local'
+    readonly VITE_BLOB_UPLOAD_URL?: string
 }
 
 interface ImportMeta {
@@ -1,6 +1,107 @@
+/// <reference types="vitest/config" />
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { aiProxyConfigFromEnv, createAiProxy } from './server/aiProxy';
+
+// Local stand-in for image object storage (VITE_IMAGE_STORAGE=local): the dev
+// server stores PUT uploads under .local-images/ and serves them back. The
+// server listens on all interfaces, so uploads are only taken from this machine.
+const LOOPBACK_ADDRESSES = new Set(['127.0.0.1', '::1', '::ffff:127.0.0.1']);
+
+const LOCAL_IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp'
+};
+
+const localImageStorage = (): Plugin => {
+  const directory = path.resolve(__dirname, '.local-images');
+  return {
+    name: 'local-image-storage',
+    configureServer(server) {
+      server.middlewares.use('/__local-images', (req, res, next) => {
+        const name = path.basename(decodeURIComponent((req.url || '').split('?')[0]));
+        if (!/^[\w-]+\.\w+$/.test(name)) return next();
+        const file = path.join(directory, name);
+        const type = LOCAL_IMAGE_TYPES[name.split('.').pop()!.toLowerCase()];
+
+        if (req.method === 'PUT') {
+          if (!LOOPBACK_ADDRESSES.has(req.socket.remoteAddress || '')) {
+            res.statusCode = 403;
+            return res.end();
+          }
+          // Only raster formats: SVG served from the app origin could run scripts
+          if (!type) {
+            res.statusCode = 415;
+            return res.end();
+          }
+          fs.mkdirSync(directory, { recursive: true });
+          req.pipe(fs.createWriteStream(file)).on('finish', () => {
+            res.statusCode = 201;
+            res.end();
+          });
+        } else if (req.method === 'GET' && fs.existsSync(file)) {
+          res.setHeader('Content-Type', type || 'application/octet-stream');
+          res.setHeader('X-Content-Type-Options', 'nosniff');
+          res.setHeader('Content-Security-Policy', "default-src 'none'; sandbox");
+          fs.createReadStream(file).pipe(res);
+        } else {
+          next();
+        }
+      });
+    }
+  };
+};
+
+// Serves the AI proxy at /api/ai in development, as api/ai.ts does when deployed.
+// Responses are piped through as they arrive so streamed answers stay streamed.
+const aiProxy = (env: Record<string, string>): Plugin => ({
+  name: 'ai-proxy',
+  configureServer(server) {
+    const handleAiRequest = createAiProxy(aiProxyConfigFromEnv(env));
+    server.middlewares.use('/api/ai', async (req, res) => {
+      // The browser going away (e.g. a cancelled request) aborts the upstream call
+      const aborter = new AbortController();
+      res.on('close', () => aborter.abort());
+
+      try {
+        const chunks: Buffer[] = [];
+        for await (const chunk of req) chunks.push(chunk as Buffer);
+
+        const request = new Request(`http://${req.headers.host}${req.originalUrl || req.url}`, {
+          method: req.method,
+          headers: req.headers as Record<string, string>,
+          body: req.method === 'GET' || req.method === 'HEAD' ? undefined : Buffer.concat(chunks),
+          signal: aborter.signal
+        });
+        const response = await handleAiRequest(request);
+        res.statusCode = response.status;
+        response.headers.forEach((value, key) => res.setHeader(key, value));
+        if (!response.body) return res.end();
+
+        const reader = response.body.getReader();
+        for (let read = await reader.read(); !read.done; read = await reader.read()) {
+          res.write(read.value);
+        }
+        res.end();
+      } catch (error) {
+        if (aborter.signal.aborted) return;
+        console.error('Error serving AI request:', error);
+        if (!res.headersSent) {
+          res.statusCode = 500;
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify({ error: 'The AI proxy failed' }));
+        } else {
+          // Cut the connection mid-stream so the client fails instead of keeping a partial answer
+          res.destroy(error as Error);
+        }
+      }
+    });
+  }
+});
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,10 +110,16 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      plugins: [react(), localImageStorage(), aiProxy(env)],
+      test: {
+        // The document model parses HTML with DOMParser
+        environment: 'jsdom',
+        // The default repository creates a Supabase client on import; tests
+        // provide an in-memory repository and never reach it
+        env: {
+          VITE_SUPABASE_URL: 'http://localhost:54321',
+          VITE_SUPABASE_ANON_KEY: 'test',
+        },
       },
       resolve: {
         alias: {